@@ -5,14 +5,20 @@ import * as vscode from "vscode";
 import {
   ClientSideConnection,
   PROTOCOL_VERSION,
+  RequestError,
   ndJsonStream,
+  type AgentCapabilities,
   type Client,
+  type ContentBlock,
   type CreateTerminalRequest,
   type CreateTerminalResponse,
   type InitializeResponse,
   type KillTerminalCommandRequest,
   type KillTerminalCommandResponse,
+  type LoadSessionResponse,
+  type McpServer,
   type NewSessionResponse,
+  type PromptCapabilities,
   type PromptResponse,
   type ReadTextFileRequest,
   type ReadTextFileResponse,
@@ -20,6 +26,7 @@ import {
   type ReleaseTerminalResponse,
   type RequestPermissionRequest,
   type RequestPermissionResponse,
+  type SessionInfo,
   type SessionNotification,
   type SetSessionModeResponse,
   type SetSessionModelResponse,
@@ -30,14 +37,85 @@ import {
   type WriteTextFileRequest,
   type WriteTextFileResponse
 } from "@agentclientprotocol/sdk";
-
-export type ConnectionState = "disconnected" | "connecting" | "connected";
+import type { PermissionPolicy, PermissionSubject } from "./PermissionPolicy";
+import { WorkspaceSandbox, type FileAccess } from "./WorkspaceSandbox";
+import { TerminalMirror } from "./TerminalMirror";
+import { TerminalPolicy, killProcessTree } from "./TerminalPolicy";
+import type { WorkspaceWriter } from "./WorkspaceWriter";
+
+export type ConnectionState = "disconnected" | "connecting" | "connected" | "reconnecting";
+
+export type ReconnectEvent =
+  | { type: "scheduled"; attempt: number; maxAttempts: number; delayMs: number }
+  | { type: "restored"; previousSessionId: string | null; sessionId: string | null; loaded: boolean }
+  | { type: "failed"; attempts: number; error: string };
+
+export class ConnectionLostError extends Error {
+  constructor(message = "ACP connection closed while the request was running") {
+    super(message);
+    this.name = "ConnectionLostError";
+  }
+}
 
 export interface SessionMetadata {
   modes?: NewSessionResponse["modes"];
   models?: NewSessionResponse["models"];
   commands?: unknown[];
   configOptions?: NewSessionResponse["configOptions"];
+  promptCapabilities?: PromptCapabilities;
+}
+
+export interface TerminalSnapshot {
+  terminalId: string;
+  output: string;
+  truncated: boolean;
+  exitCode: number | null;
+  signal: string | null;
+  running: boolean;
+}
+
+export type PermissionPrompter = (
+  request: RequestPermissionRequest,
+  subject: PermissionSubject
+) => Promise<RequestPermissionResponse | null>;
+
+export interface FileChangeObserver {
+  beforeWrite(filePath: string): Promise<void>;
+  beforeCommand(cwd: string): Promise<void>;
+}
+
+interface KnownToolCall {
+  kind?: string;
+  title?: string;
+  locations?: string[];
+  rawInput?: unknown;
+}
+
+interface McpServerEntry {
+  type?: unknown;
+  command?: unknown;
+  args?: unknown;
+  env?: unknown;
+  url?: unknown;
+  headers?: unknown;
+}
+
+const MCP_WORKSPACE_FILE = ".vscode/opencode-mcp.json";
+const BINARY_SNIFF_BYTES = 8000;
+const TERMINAL_POLICY_ERROR_CODE = -32005;
+const TERMINAL_SNAPSHOT_BYTES = 64 * 1024;
+const TERMINAL_SNAPSHOT_INTERVAL_MS = 150;
+
+interface ReconnectPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+interface RestorableSession {
+  sessionId: string;
+  modeId?: string;
+  modelId?: string;
 }
 
 interface ManagedTerminal {
@@ -50,6 +128,10 @@ interface ManagedTerminal {
   signal: string | null;
   exitPromise: Promise<void>;
   resolveExit: () => void;
+  mirror: TerminalMirror;
+  timeout: NodeJS.Timeout | null;
+  snapshotTimer: NodeJS.Timeout | null;
+  running: boolean;
 }
 
 export class AcpClient implements vscode.Disposable {
@@ -58,19 +140,41 @@ export class AcpClient implements vscode.Disposable {
   private state: ConnectionState = "disconnected";
   private sessionId: string | null = null;
   private metadata: SessionMetadata = {};
+  private agentCapabilities: AgentCapabilities = {};
   private readonly outputChannel = vscode.window.createOutputChannel("OpenCode ACP");
   private readonly trafficChannel = vscode.window.createOutputChannel("OpenCode ACP Traffic");
   private readonly terminals = new Map<string, ManagedTerminal>();
+  private readonly toolCalls = new Map<string, KnownToolCall>();
+  private readonly sandbox = new WorkspaceSandbox();
+  private readonly terminalPolicy = new TerminalPolicy();
+  private permissionPrompter: PermissionPrompter | null = null;
+  private fileChangeObserver: FileChangeObserver | null = null;
+  private readonly pendingRequests = new Set<(error: Error) => void>();
   private isDisposing = false;
+  private isLoading = false;
   private terminalCounter = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempt = 0;
+  private sessionToRestore: RestorableSession | null = null;
 
   private readonly onStateEmitter = new vscode.EventEmitter<ConnectionState>();
   private readonly onSessionUpdateEmitter = new vscode.EventEmitter<SessionNotification>();
   private readonly onMetadataEmitter = new vscode.EventEmitter<SessionMetadata>();
+  private readonly onReconnectEmitter = new vscode.EventEmitter<ReconnectEvent>();
+  private readonly onTerminalViolationEmitter = new vscode.EventEmitter<string>();
+  private readonly onTerminalOutputEmitter = new vscode.EventEmitter<TerminalSnapshot>();
 
   public readonly onDidStateChange = this.onStateEmitter.event;
   public readonly onDidSessionUpdate = this.onSessionUpdateEmitter.event;
   public readonly onDidMetadataChange = this.onMetadataEmitter.event;
+  public readonly onDidReconnect = this.onReconnectEmitter.event;
+  public readonly onDidTerminalViolation = this.onTerminalViolationEmitter.event;
+  public readonly onDidTerminalOutput = this.onTerminalOutputEmitter.event;
+
+  constructor(
+    private readonly permissionPolicy: PermissionPolicy,
+    private readonly writer: WorkspaceWriter
+  ) {}
 
   public get connectionState(): ConnectionState {
     return this.state;
@@ -84,10 +188,34 @@ export class AcpClient implements vscode.Disposable {
     return this.metadata;
   }
 
+  public get supportsLoadSession(): boolean {
+    return Boolean(this.agentCapabilities.loadSession);
+  }
+
+  public get supportsListSessions(): boolean {
+    return Boolean(this.agentCapabilities.sessionCapabilities?.list);
+  }
+
+  public get isLoadingSession(): boolean {
+    return this.isLoading;
+  }
+
+  public get promptCapabilities(): PromptCapabilities {
+    return this.agentCapabilities.promptCapabilities ?? {};
+  }
+
   public showLogs(): void {
     this.outputChannel.show(true);
   }
 
+  public setPermissionPrompter(prompter: PermissionPrompter | null): void {
+    this.permissionPrompter = prompter;
+  }
+
+  public setFileChangeObserver(observer: FileChangeObserver | null): void {
+    this.fileChangeObserver = observer;
+  }
+
   private setState(next: ConnectionState): void {
     if (this.state === next) {
       return;
@@ -96,7 +224,7 @@ export class AcpClient implements vscode.Disposable {
     this.onStateEmitter.fire(next);
   }
 
-  private log(message: string): void {
+  public log(message: string): void {
     this.outputChannel.appendLine(`[${new Date().toISOString()}] ${message}`);
   }
 
@@ -140,6 +268,124 @@ export class AcpClient implements vscode.Disposable {
     return env;
   }
 
+  private async resolveMcpServers(): Promise<McpServer[]> {
+    const configured = vscode.workspace.getConfiguration("opencodeAcp").get<Record<string, unknown>>("mcpServers", {});
+    const entries = new Map<string, unknown>(Object.entries(configured ?? {}));
+
+    for (const [name, entry] of Object.entries(await this.readWorkspaceMcpServers())) {
+      entries.set(name, entry);
+    }
+
+    const servers: McpServer[] = [];
+    const skipped: string[] = [];
+    for (const [name, entry] of entries) {
+      try {
+        servers.push(this.toMcpServer(name, entry));
+      } catch (error) {
+        skipped.push(name);
+        this.log(`Skipping MCP server '${name}': ${this.toErrorMessage(error)}`);
+      }
+    }
+
+    if (skipped.length) {
+      void vscode.window.showWarningMessage(
+        `OpenCode ACP: skipped MCP server(s) ${skipped.join(", ")}. See the OpenCode ACP output for details.`
+      );
+    }
+    return servers;
+  }
+
+  private async readWorkspaceMcpServers(): Promise<Record<string, unknown>> {
+    const folder = this.getWorkspaceFolder();
+    if (!folder) {
+      return {};
+    }
+
+    const fileUri = vscode.Uri.joinPath(folder.uri, MCP_WORKSPACE_FILE);
+    let text: string;
+    try {
+      text = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString("utf8");
+    } catch {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(text) as { mcpServers?: unknown };
+      if (!parsed.mcpServers || typeof parsed.mcpServers !== "object" || Array.isArray(parsed.mcpServers)) {
+        throw new Error("expected an object under \"mcpServers\"");
+      }
+      return parsed.mcpServers as Record<string, unknown>;
+    } catch (error) {
+      this.log(`Ignoring ${MCP_WORKSPACE_FILE}: ${this.toErrorMessage(error)}`);
+      return {};
+    }
+  }
+
+  private toMcpServer(name: string, raw: unknown): McpServer {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error("server definition must be an object");
+    }
+
+    const entry = raw as McpServerEntry;
+    const type = typeof entry.type === "string" ? entry.type : typeof entry.url === "string" ? "http" : "stdio";
+    const mcpCapabilities = this.agentCapabilities.mcpCapabilities ?? {};
+
+    if (type === "stdio") {
+      if (typeof entry.command !== "string" || !entry.command.trim()) {
+        throw new Error("stdio servers require a command");
+      }
+      return {
+        name,
+        command: this.interpolateWorkspaceVar(entry.command.trim()),
+        args: this.toStringList(entry.args).map((arg) => this.interpolateWorkspaceVar(arg)),
+        env: this.toNameValueList(entry.env)
+      };
+    }
+
+    if (type !== "http" && type !== "sse") {
+      throw new Error(`unsupported type '${type}'`);
+    }
+    if (!mcpCapabilities[type]) {
+      throw new Error(`agent does not support ${type} MCP servers`);
+    }
+    if (typeof entry.url !== "string" || !entry.url.trim()) {
+      throw new Error(`${type} servers require a url`);
+    }
+
+    return {
+      type,
+      name,
+      url: this.interpolateWorkspaceVar(entry.url.trim()),
+      headers: this.toNameValueList(entry.headers)
+    };
+  }
+
+  private toStringList(raw: unknown): string[] {
+    return Array.isArray(raw) ? raw.filter((value): value is string => typeof value === "string") : [];
+  }
+
+  private toNameValueList(raw: unknown): Array<{ name: string; value: string }> {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      return [];
+    }
+    return Object.entries(raw as Record<string, unknown>)
+      .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+      .map(([name, value]) => ({ name, value: this.interpolateWorkspaceVar(value) }));
+  }
+
+  private resolveReconnectPolicy(): ReconnectPolicy {
+    const config = vscode.workspace.getConfiguration("opencodeAcp");
+    const maxRetries = config.get<number>("reconnectMaxRetries", 5);
+    const baseDelayMs = config.get<number>("reconnectBaseDelayMs", 1000);
+    const maxDelayMs = config.get<number>("reconnectMaxDelayMs", 30000);
+
+    return {
+      maxRetries: Number.isFinite(maxRetries) ? Math.max(0, Math.floor(maxRetries)) : 5,
+      baseDelayMs: Number.isFinite(baseDelayMs) ? Math.max(100, baseDelayMs) : 1000,
+      maxDelayMs: Number.isFinite(maxDelayMs) ? Math.max(100, maxDelayMs) : 30000
+    };
+  }
+
   private configuredDefaultModelQuery(): string {
     return vscode.workspace.getConfiguration("opencodeAcp").get<string>("defaultModel", "opencode").trim();
   }
@@ -185,6 +431,11 @@ export class AcpClient implements vscode.Disposable {
       throw new Error("Already connecting to ACP agent");
     }
 
+    this.cancelReconnect();
+    await this.openConnection();
+  }
+
+  private async openConnection(): Promise<void> {
     this.setState("connecting");
     const command = vscode.workspace.getConfiguration("opencodeAcp").get<string>("command", "opencode").trim();
     const argsRaw = vscode.workspace.getConfiguration("opencodeAcp").get<unknown[]>("args", ["acp"]);
@@ -216,12 +467,12 @@ export class AcpClient implements vscode.Disposable {
 
     this.process.on("error", (error) => {
       this.log(`ACP process error: ${error.message}`);
-      this.cleanupDisconnected();
+      this.cleanupDisconnected(true);
     });
 
     this.process.on("exit", (code, signal) => {
       this.log(`ACP process exited (code=${code ?? "null"}, signal=${signal ?? "null"})`);
-      this.cleanupDisconnected();
+      this.cleanupDisconnected(true);
     });
 
     if (!this.process.stdin || !this.process.stdout) {
@@ -246,11 +497,12 @@ export class AcpClient implements vscode.Disposable {
       releaseTerminal: async (params) => this.handleReleaseTerminal(params)
     };
 
-    this.connection = new ClientSideConnection(() => client, stream);
+    const connection = new ClientSideConnection(() => client, stream);
+    this.connection = connection;
 
     let initResponse: InitializeResponse;
     try {
-      initResponse = await this.connection.initialize({
+      initResponse = await this.guardRequest(connection.initialize({
         protocolVersion: PROTOCOL_VERSION,
         clientInfo: {
           name: "opencode-acp-chat",
@@ -264,42 +516,180 @@ export class AcpClient implements vscode.Disposable {
           },
           terminal: true
         }
-      });
+      }));
     } catch (error) {
       this.cleanupDisconnected();
       throw new Error(`Failed to initialize ACP connection: ${this.toErrorMessage(error)}`);
     }
 
+    this.agentCapabilities = initResponse.agentCapabilities ?? {};
     this.log(`Connected. Agent protocol version: ${initResponse.protocolVersion}`);
     this.setState("connected");
 
-    void this.connection.closed.then(() => {
+    void connection.closed.then(() => {
+      if (this.connection !== connection) {
+        return;
+      }
       this.log("ACP connection closed");
-      this.cleanupDisconnected();
+      this.cleanupDisconnected(true);
     });
   }
 
-  private cleanupDisconnected(): void {
+  private cleanupDisconnected(unexpected = false): void {
     if (this.isDisposing) {
       return;
     }
+
+    const shouldReconnect = unexpected && this.state === "connected";
+    if (shouldReconnect && this.sessionId) {
+      this.sessionToRestore = {
+        sessionId: this.sessionId,
+        modeId: (this.metadata.modes as { currentModeId?: string } | undefined)?.currentModeId,
+        modelId: (this.metadata.models as { currentModelId?: string } | undefined)?.currentModelId
+      };
+    }
+
     this.setState("disconnected");
     this.connection = null;
     this.sessionId = null;
     this.metadata = {};
+    this.agentCapabilities = {};
     this.onMetadataEmitter.fire(this.metadata);
 
-    if (this.process) {
-      this.process.removeAllListeners();
+    const agentProcess = this.process;
+    if (agentProcess) {
       this.process = null;
+      agentProcess.removeAllListeners();
+      agentProcess.on("error", () => undefined);
+      if (agentProcess.exitCode === null && agentProcess.signalCode === null) {
+        agentProcess.kill();
+      }
+    }
+
+    this.releaseAllTerminals();
+
+    const interrupted = [...this.pendingRequests];
+    this.pendingRequests.clear();
+    for (const reject of interrupted) {
+      reject(new ConnectionLostError());
+    }
+
+    if (shouldReconnect) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private guardRequest<T>(request: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pendingRequests.add(reject);
+      void request
+        .then(resolve, reject)
+        .finally(() => this.pendingRequests.delete(reject));
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const policy = this.resolveReconnectPolicy();
+    if (this.reconnectAttempt >= policy.maxRetries) {
+      const attempts = this.reconnectAttempt;
+      this.reconnectAttempt = 0;
+      this.sessionToRestore = null;
+      if (attempts > 0) {
+        this.log(`Giving up reconnecting after ${attempts} attempt(s)`);
+        this.onReconnectEmitter.fire({
+          type: "failed",
+          attempts,
+          error: `Could not reconnect to ACP agent after ${attempts} attempt(s)`
+        });
+      }
+      return;
+    }
+
+    this.reconnectAttempt += 1;
+    const delayMs = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (this.reconnectAttempt - 1));
+    this.log(`Reconnecting in ${delayMs}ms (attempt ${this.reconnectAttempt}/${policy.maxRetries})`);
+    this.setState("reconnecting");
+    this.onReconnectEmitter.fire({
+      type: "scheduled",
+      attempt: this.reconnectAttempt,
+      maxAttempts: policy.maxRetries,
+      delayMs
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.attemptReconnect();
+    }, delayMs);
+  }
+
+  private async attemptReconnect(): Promise<void> {
+    try {
+      await this.openConnection();
+    } catch (error) {
+      this.log(`Reconnect attempt ${this.reconnectAttempt} failed: ${this.toErrorMessage(error)}`);
+      this.scheduleReconnect();
+      return;
+    }
+
+    const previous = this.sessionToRestore;
+    this.reconnectAttempt = 0;
+    this.sessionToRestore = null;
+
+    let loaded = false;
+    try {
+      if (previous) {
+        loaded = await this.restoreSession(previous);
+      }
+    } catch (error) {
+      this.log(`Failed to restore session after reconnect: ${this.toErrorMessage(error)}`);
+    }
+
+    this.onReconnectEmitter.fire({
+      type: "restored",
+      previousSessionId: previous?.sessionId ?? null,
+      sessionId: this.sessionId,
+      loaded
+    });
+  }
+
+  private async restoreSession(previous: RestorableSession): Promise<boolean> {
+    if (this.supportsLoadSession) {
+      try {
+        await this.loadSession(previous.sessionId);
+        return true;
+      } catch (error) {
+        this.log(`session/load failed for ${previous.sessionId}: ${this.toErrorMessage(error)}`);
+      }
+    }
+
+    await this.newSession();
+    const modes = this.metadata.modes as { currentModeId?: string } | undefined;
+    if (previous.modeId && modes?.currentModeId !== previous.modeId) {
+      try {
+        await this.setMode(previous.modeId);
+      } catch (error) {
+        this.log(`Failed to restore mode '${previous.modeId}': ${this.toErrorMessage(error)}`);
+      }
     }
 
-    for (const terminal of this.terminals.values()) {
-      if (!terminal.proc.killed) {
-        terminal.proc.kill();
+    const models = this.metadata.models as { currentModelId?: string } | undefined;
+    if (previous.modelId && models?.currentModelId !== previous.modelId) {
+      try {
+        await this.setModel(previous.modelId);
+      } catch (error) {
+        this.log(`Failed to restore model '${previous.modelId}': ${this.toErrorMessage(error)}`);
       }
     }
-    this.terminals.clear();
+    return false;
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+    this.sessionToRestore = null;
   }
 
   private ensureConnection(): ClientSideConnection {
@@ -318,18 +708,13 @@ export class AcpClient implements vscode.Disposable {
 
   public async newSession(cwd?: string): Promise<NewSessionResponse> {
     const connection = this.ensureConnection();
-    const response = await connection.newSession({
+    const mcpServers = await this.resolveMcpServers();
+    const response = await this.guardRequest(connection.newSession({
       cwd: cwd ?? this.resolveDefaultCwd(),
-      mcpServers: []
-    });
+      mcpServers
+    }));
 
-    this.sessionId = response.sessionId;
-    this.metadata = {
-      modes: response.modes,
-      models: response.models,
-      configOptions: response.configOptions,
-      commands: []
-    };
+    this.setActiveSession(response.sessionId, response);
 
     const preferredModelId = this.resolveConfiguredDefaultModelId(response.models);
     const currentModelId = (response.models as { currentModelId?: string } | undefined)?.currentModelId;
@@ -351,15 +736,92 @@ export class AcpClient implements vscode.Disposable {
     return response;
   }
 
-  public async sendPrompt(text: string): Promise<PromptResponse> {
+  public async loadSession(sessionId: string, cwd?: string): Promise<LoadSessionResponse> {
+    const connection = this.ensureConnection();
+    if (!this.supportsLoadSession) {
+      throw new Error("ACP agent does not support session/load");
+    }
+
+    const mcpServers = await this.resolveMcpServers();
+    let response: LoadSessionResponse;
+    this.isLoading = true;
+    try {
+      response = await this.guardRequest(connection.loadSession({
+        sessionId,
+        cwd: cwd ?? this.resolveDefaultCwd(),
+        mcpServers
+      }));
+    } finally {
+      this.isLoading = false;
+    }
+
+    this.setActiveSession(sessionId, response);
+    this.onMetadataEmitter.fire(this.metadata);
+    this.log(`Loaded session ${sessionId}`);
+
+    return response;
+  }
+
+  public async listSessions(): Promise<SessionInfo[]> {
+    const connection = this.ensureConnection();
+    if (!this.supportsListSessions) {
+      throw new Error("ACP agent does not support session/list");
+    }
+
+    const sessions: SessionInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const response = await this.guardRequest(connection.unstable_listSessions({ cursor }));
+      sessions.push(...response.sessions);
+      cursor = response.nextCursor ?? undefined;
+    } while (cursor);
+
+    this.log(`Listed ${sessions.length} sessions`);
+    return sessions;
+  }
+
+  private setActiveSession(sessionId: string, response: NewSessionResponse | LoadSessionResponse): void {
+    this.sessionId = sessionId;
+    this.toolCalls.clear();
+    this.metadata = {
+      modes: response.modes,
+      models: response.models,
+      configOptions: response.configOptions,
+      commands: [],
+      promptCapabilities: this.promptCapabilities
+    };
+  }
+
+  public async sendPrompt(prompt: ContentBlock[]): Promise<PromptResponse> {
     const connection = this.ensureConnection();
     const sessionId = this.ensureSession();
 
-    this.logTraffic(`[request] session/prompt: ${text.slice(0, 180)}`);
-    return connection.prompt({
+    for (const block of prompt) {
+      this.assertPromptBlockSupported(block);
+    }
+
+    const text = prompt.find((block) => block.type === "text")?.text ?? "";
+    const extraBlocks = prompt.filter((block) => block.type !== "text").map((block) => block.type);
+    this.logTraffic(
+      `[request] session/prompt: ${text.slice(0, 180)}${extraBlocks.length ? ` (+${extraBlocks.join(", ")})` : ""}`
+    );
+    return this.guardRequest(connection.prompt({
       sessionId,
-      prompt: [{ type: "text", text }]
-    });
+      prompt
+    }));
+  }
+
+  private assertPromptBlockSupported(block: ContentBlock): void {
+    const capabilities = this.promptCapabilities;
+    if (block.type === "image" && !capabilities.image) {
+      throw new Error("ACP agent does not accept image prompts");
+    }
+    if (block.type === "audio" && !capabilities.audio) {
+      throw new Error("ACP agent does not accept audio prompts");
+    }
+    if (block.type === "resource" && !capabilities.embeddedContext) {
+      throw new Error("ACP agent does not accept embedded resources");
+    }
   }
 
   public async cancelTurn(): Promise<void> {
@@ -399,6 +861,11 @@ export class AcpClient implements vscode.Disposable {
   private async handleSessionUpdate(params: SessionNotification): Promise<void> {
     const update = params.update as { sessionUpdate?: string; [key: string]: unknown };
 
+    if ((update.sessionUpdate === "tool_call" || update.sessionUpdate === "tool_call_update")
+      && typeof update.toolCallId === "string") {
+      this.rememberToolCall(update.toolCallId, update);
+    }
+
     if (update.sessionUpdate === "available_commands_update" && Array.isArray(update.availableCommands)) {
       this.metadata = {
         ...this.metadata,
@@ -420,22 +887,63 @@ export class AcpClient implements vscode.Disposable {
     this.onSessionUpdateEmitter.fire(params);
   }
 
+  private rememberToolCall(toolCallId: string, update: Record<string, unknown>): void {
+    const known = this.toolCalls.get(toolCallId) ?? {};
+    const locations = Array.isArray(update.locations)
+      ? update.locations
+        .map((location) => (location as { path?: unknown })?.path)
+        .filter((value): value is string => typeof value === "string")
+      : known.locations;
+
+    this.toolCalls.set(toolCallId, {
+      kind: typeof update.kind === "string" ? update.kind : known.kind,
+      title: typeof update.title === "string" ? update.title : known.title,
+      locations,
+      rawInput: update.rawInput ?? known.rawInput
+    });
+  }
+
   private async handlePermissionRequest(
     params: RequestPermissionRequest
   ): Promise<RequestPermissionResponse> {
-    const mode = vscode.workspace.getConfiguration("opencodeAcp").get<"ask" | "allowAll">("permissionMode", "ask");
-    const allowOption = params.options.find((option) => option.kind === "allow_always")
-      ?? params.options.find((option) => option.kind === "allow_once");
+    const known = this.toolCalls.get(params.toolCall.toolCallId);
+    const subject: PermissionSubject = {
+      kind: params.toolCall.kind ?? known?.kind ?? "other",
+      title: params.toolCall.title ?? known?.title ?? "Permission request",
+      locations: params.toolCall.locations?.map((location) => location.path) ?? known?.locations ?? [],
+      rawInput: params.toolCall.rawInput ?? known?.rawInput
+    };
 
-    if (mode === "allowAll" && allowOption) {
-      return {
-        outcome: {
-          outcome: "selected",
-          optionId: allowOption.optionId
-        }
-      };
+    const action = this.permissionPolicy.evaluate(subject);
+    if (action !== "ask") {
+      const preferredKinds = action === "allow"
+        ? ["allow_once", "allow_always"]
+        : ["reject_once", "reject_always"];
+      const option = preferredKinds
+        .map((kind) => params.options.find((candidate) => candidate.kind === kind))
+        .find((candidate) => candidate !== undefined);
+
+      this.log(`Permission ${action} by rule for ${subject.kind}: ${subject.title}`);
+      if (option) {
+        return { outcome: { outcome: "selected", optionId: option.optionId } };
+      }
+      if (action === "deny") {
+        return { outcome: { outcome: "cancelled" } };
+      }
     }
 
+    const response = await this.permissionPrompter?.(params, subject) ?? await this.showPermissionQuickPick(params);
+    if (response.outcome.outcome === "selected") {
+      const selectedId = response.outcome.optionId;
+      const selected = params.options.find((option) => option.optionId === selectedId);
+      if (selected?.kind === "allow_always" || selected?.kind === "reject_always") {
+        await this.permissionPolicy.remember(subject, selected.kind === "allow_always" ? "allow" : "deny");
+      }
+    }
+    return response;
+  }
+
+  private async showPermissionQuickPick(params: RequestPermissionRequest): Promise<RequestPermissionResponse> {
     type PermissionPick = vscode.QuickPickItem & { optionId: string };
     const items: PermissionPick[] = params.options.map((option) => ({
       label: option.name,
@@ -464,16 +972,76 @@ export class AcpClient implements vscode.Disposable {
     };
   }
 
+  private async ensureFileAccess(sessionId: string, filePath: string, access: FileAccess): Promise<void> {
+    const decision = await this.sandbox.check(filePath);
+    if (decision.allowed) {
+      return;
+    }
+
+    const target = decision.resolvedPath === decision.requestedPath
+      ? decision.requestedPath
+      : `${decision.requestedPath} -> ${decision.resolvedPath}`;
+
+    if (this.sandbox.outsideWorkspaceAccess() === "ask") {
+      const request: RequestPermissionRequest = {
+        sessionId,
+        toolCall: {
+          toolCallId: `fs-${access}-${Date.now()}`,
+          title: `${access === "read" ? "Read" : "Write"} outside the workspace: ${decision.requestedPath}`,
+          kind: access === "read" ? "read" : "edit",
+          locations: [{ path: decision.resolvedPath }]
+        },
+        options: [
+          { optionId: "allow", name: "Allow once", kind: "allow_once" },
+          { optionId: "reject", name: "Reject", kind: "reject_once" }
+        ]
+      };
+      const subject: PermissionSubject = {
+        kind: request.toolCall.kind ?? "other",
+        title: request.toolCall.title ?? "",
+        locations: [decision.resolvedPath]
+      };
+      const response = await this.permissionPrompter?.(request, subject) ?? await this.showPermissionQuickPick(request);
+      if (response.outcome.outcome === "selected" && response.outcome.optionId === "allow") {
+        this.log(`File ${access} outside workspace allowed by user: ${target}`);
+        return;
+      }
+      this.log(`File ${access} outside workspace denied by user: ${target}`);
+      throw this.sandbox.accessDenied(decision, access, "rejected by user");
+    }
+
+    this.log(`File ${access} outside workspace denied by policy: ${target}`);
+    throw this.sandbox.accessDenied(decision, access, "outside workspace and allowlist");
+  }
+
   private async handleReadTextFile(params: ReadTextFileRequest): Promise<ReadTextFileResponse> {
+    await this.ensureFileAccess(params.sessionId, params.path, "read");
     const uri = vscode.Uri.file(params.path);
-    const bytes = await vscode.workspace.fs.readFile(uri);
-    let content = Buffer.from(bytes).toString("utf8");
+    const openDocument = vscode.workspace.textDocuments.find(
+      (document) => document.uri.scheme === "file" && isSamePath(document.uri.fsPath, uri.fsPath)
+    );
+
+    let content: string;
+    if (openDocument) {
+      content = openDocument.getText();
+    } else {
+      let bytes: Uint8Array;
+      try {
+        bytes = await vscode.workspace.fs.readFile(uri);
+      } catch (error) {
+        if (error instanceof vscode.FileSystemError && error.code === "FileNotFound") {
+          throw RequestError.resourceNotFound(params.path);
+        }
+        throw error;
+      }
+      content = decodeTextFile(params.path, bytes);
+    }
 
     const hasLine = typeof params.line === "number";
     const hasLimit = typeof params.limit === "number";
     if (hasLine || hasLimit) {
       const lines = content.split(/\r?\n/);
-      const start = hasLine ? Math.max(0, params.line as number) : 0;
+      const start = hasLine ? Math.max(0, (params.line as number) - 1) : 0;
       const limit = hasLimit ? Math.max(0, params.limit as number) : lines.length;
       content = lines.slice(start, start + limit).join("\n");
     }
@@ -482,11 +1050,9 @@ export class AcpClient implements vscode.Disposable {
   }
 
   private async handleWriteTextFile(params: WriteTextFileRequest): Promise<WriteTextFileResponse> {
-    const fileUri = vscode.Uri.file(params.path);
-    const parentUri = vscode.Uri.file(path.dirname(params.path));
-
-    await vscode.workspace.fs.createDirectory(parentUri);
-    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(params.content, "utf8"));
+    await this.ensureFileAccess(params.sessionId, params.path, "write");
+    await this.fileChangeObserver?.beforeWrite(params.path);
+    await this.writer.write(params.path, params.content);
     return {};
   }
 
@@ -503,21 +1069,85 @@ export class AcpClient implements vscode.Disposable {
         terminal.truncated = true;
       }
     }
+
+    this.scheduleTerminalSnapshot(terminal);
+  }
+
+  private scheduleTerminalSnapshot(terminal: ManagedTerminal): void {
+    if (terminal.snapshotTimer) {
+      return;
+    }
+    terminal.snapshotTimer = setTimeout(() => {
+      terminal.snapshotTimer = null;
+      this.publishTerminalSnapshot(terminal);
+    }, TERMINAL_SNAPSHOT_INTERVAL_MS);
+  }
+
+  private publishTerminalSnapshot(terminal: ManagedTerminal): void {
+    if (terminal.snapshotTimer) {
+      clearTimeout(terminal.snapshotTimer);
+      terminal.snapshotTimer = null;
+    }
+
+    let output = terminal.output;
+    let truncated = terminal.truncated;
+    const encoded = Buffer.from(output, "utf8");
+    if (encoded.length > TERMINAL_SNAPSHOT_BYTES) {
+      output = encoded.subarray(encoded.length - TERMINAL_SNAPSHOT_BYTES).toString("utf8");
+      truncated = true;
+    }
+
+    this.onTerminalOutputEmitter.fire({
+      terminalId: terminal.id,
+      output,
+      truncated,
+      exitCode: terminal.exitCode,
+      signal: terminal.signal,
+      running: terminal.running
+    });
+  }
+
+  private rejectTerminal(commandLine: string, reason: string, message: string): RequestError {
+    this.log(`Terminal rejected (${reason}): ${message}`);
+    this.onTerminalViolationEmitter.fire(message);
+    return new RequestError(TERMINAL_POLICY_ERROR_CODE, message, { command: commandLine, reason });
   }
 
   private async handleCreateTerminal(params: CreateTerminalRequest): Promise<CreateTerminalResponse> {
+    const commandLine = [params.command, ...(params.args ?? [])].join(" ");
+    const violation = this.terminalPolicy.checkCommand(commandLine);
+    if (violation) {
+      throw this.rejectTerminal(commandLine, "command", violation);
+    }
+
+    const limits = this.terminalPolicy.limits();
+    const running = [...this.terminals.values()].filter((terminal) => terminal.running);
+    if (limits.maxConcurrent && running.length >= limits.maxConcurrent) {
+      throw this.rejectTerminal(
+        commandLine,
+        "concurrency",
+        `Too many running terminals (${running.length}/${limits.maxConcurrent}); release or wait for one before starting ${commandLine}`
+      );
+    }
+
     const id = `terminal-${++this.terminalCounter}-${Date.now()}`;
+    const scrubbed = this.terminalPolicy.scrubEnv(process.env);
+    if (scrubbed.removed.length) {
+      this.log(`Terminal ${id}: withheld environment variables ${scrubbed.removed.join(", ")}`);
+    }
     const commandEnv = {
-      ...process.env,
+      ...scrubbed.env,
       ...Object.fromEntries((params.env ?? []).map((envVar) => [envVar.name, envVar.value]))
     };
 
     const cwd = params.cwd?.trim() || this.resolveDefaultCwd();
+    await this.fileChangeObserver?.beforeCommand(cwd);
 
     const proc = spawn(params.command, params.args ?? [], {
       cwd,
       env: commandEnv,
       shell: process.platform === "win32",
+      detached: process.platform !== "win32",
       windowsHide: true,
       stdio: ["ignore", "pipe", "pipe"]
     });
@@ -527,6 +1157,11 @@ export class AcpClient implements vscode.Disposable {
       resolveExit = resolve;
     });
 
+    const mirror = new TerminalMirror(commandLine, cwd, () => {
+      this.log(`Terminal ${id} closed by user; killing ${commandLine}`);
+      killProcessTree(proc);
+    });
+
     const terminal: ManagedTerminal = {
       id,
       proc,
@@ -536,28 +1171,65 @@ export class AcpClient implements vscode.Disposable {
       exitCode: null,
       signal: null,
       exitPromise,
-      resolveExit
+      resolveExit,
+      mirror,
+      timeout: null,
+      snapshotTimer: null,
+      running: true
     };
 
-    proc.stdout.on("data", (chunk) => this.appendTerminalOutput(terminal, chunk.toString("utf8")));
-    proc.stderr.on("data", (chunk) => this.appendTerminalOutput(terminal, chunk.toString("utf8")));
+    if (limits.timeoutMs) {
+      terminal.timeout = setTimeout(() => {
+        const message = `Command timed out after ${limits.timeoutMs / 1000}s and was killed: ${commandLine}`;
+        this.appendTerminalOutput(terminal, `\n${message}\n`);
+        mirror.write(`\n${message}\n`);
+        this.log(`Terminal ${id}: ${message}`);
+        this.onTerminalViolationEmitter.fire(message);
+        killProcessTree(proc);
+      }, limits.timeoutMs);
+    }
+
+    const onOutput = (chunk: Buffer) => {
+      const text = chunk.toString("utf8");
+      this.appendTerminalOutput(terminal, text);
+      mirror.write(text);
+    };
+    proc.stdout.on("data", onOutput);
+    proc.stderr.on("data", onOutput);
 
     proc.on("exit", (code, signal) => {
+      this.clearTerminalTimeout(terminal);
       terminal.exitCode = code;
       terminal.signal = signal;
+      terminal.running = false;
+      mirror.markExited(code, signal);
+      this.publishTerminalSnapshot(terminal);
       terminal.resolveExit();
     });
 
     proc.on("error", (error) => {
+      this.clearTerminalTimeout(terminal);
       this.appendTerminalOutput(terminal, `\n${error.message}`);
+      mirror.write(`\n${error.message}`);
       terminal.exitCode = 1;
+      terminal.running = false;
+      mirror.markExited(1, null);
+      this.publishTerminalSnapshot(terminal);
       terminal.resolveExit();
     });
 
     this.terminals.set(id, terminal);
+    this.publishTerminalSnapshot(terminal);
     return { terminalId: id };
   }
 
+  private clearTerminalTimeout(terminal: ManagedTerminal): void {
+    if (terminal.timeout) {
+      clearTimeout(terminal.timeout);
+      terminal.timeout = null;
+    }
+  }
+
   private async handleTerminalOutput(params: TerminalOutputRequest): Promise<TerminalOutputResponse> {
     const terminal = this.terminals.get(params.terminalId);
     if (!terminal) {
@@ -602,9 +1274,7 @@ export class AcpClient implements vscode.Disposable {
       return {};
     }
 
-    if (!terminal.proc.killed) {
-      terminal.proc.kill();
-    }
+    killProcessTree(terminal.proc);
     return {};
   }
 
@@ -616,12 +1286,25 @@ export class AcpClient implements vscode.Disposable {
       return {};
     }
 
-    if (!terminal.proc.killed) {
-      terminal.proc.kill();
+    this.releaseTerminal(terminal);
+    return {};
+  }
+
+  private releaseTerminal(terminal: ManagedTerminal): void {
+    this.clearTerminalTimeout(terminal);
+    if (terminal.snapshotTimer) {
+      clearTimeout(terminal.snapshotTimer);
+      terminal.snapshotTimer = null;
     }
+    killProcessTree(terminal.proc);
+    terminal.mirror.dispose();
+    this.terminals.delete(terminal.id);
+  }
 
-    this.terminals.delete(params.terminalId);
-    return {};
+  private releaseAllTerminals(): void {
+    for (const terminal of [...this.terminals.values()]) {
+      this.releaseTerminal(terminal);
+    }
   }
 
   private toErrorMessage(error: unknown): string {
@@ -632,6 +1315,7 @@ export class AcpClient implements vscode.Disposable {
   }
 
   public async disconnect(): Promise<void> {
+    this.cancelReconnect();
     this.isDisposing = true;
     try {
       if (this.process && !this.process.killed) {
@@ -645,10 +1329,48 @@ export class AcpClient implements vscode.Disposable {
 
   public dispose(): void {
     void this.disconnect();
+    this.releaseAllTerminals();
     this.onStateEmitter.dispose();
     this.onSessionUpdateEmitter.dispose();
     this.onMetadataEmitter.dispose();
+    this.onReconnectEmitter.dispose();
+    this.onTerminalViolationEmitter.dispose();
+    this.onTerminalOutputEmitter.dispose();
     this.outputChannel.dispose();
     this.trafficChannel.dispose();
   }
 }
+
+function isSamePath(left: string, right: string): boolean {
+  const normalizedLeft = path.normalize(left);
+  const normalizedRight = path.normalize(right);
+  return process.platform === "win32" || process.platform === "darwin"
+    ? normalizedLeft.toLowerCase() === normalizedRight.toLowerCase()
+    : normalizedLeft === normalizedRight;
+}
+
+function decodeTextFile(filePath: string, bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+  }
+
+  const sample = bytes.subarray(0, BINARY_SNIFF_BYTES);
+  if (sample.includes(0)) {
+    throw RequestError.invalidParams(
+      { path: filePath, reason: "binary" },
+      `${filePath} looks like a binary file and cannot be read as text`
+    );
+  }
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(bytes);
+  } catch {
+    throw RequestError.invalidParams(
+      { path: filePath, reason: "encoding" },
+      `${filePath} is not valid UTF-8 or UTF-16 text. Open it in the editor with the correct encoding to share its contents`
+    );
+  }
+}
@@ -0,0 +1,245 @@
+import * as os from "node:os";
+import * as path from "node:path";
+import * as vscode from "vscode";
+
+export type PermissionAction = "allow" | "ask" | "deny";
+
+export interface PermissionRule {
+  kind?: string;
+  path?: string;
+  command?: string;
+  action: PermissionAction;
+}
+
+export interface RememberedPermission {
+  kind: string;
+  paths?: string[];
+  command?: string;
+  action: "allow" | "deny";
+  createdAt: number;
+}
+
+type PermissionScope = Pick<RememberedPermission, "kind" | "paths" | "command">;
+
+export interface PermissionSubject {
+  kind: string;
+  title: string;
+  locations: string[];
+  rawInput?: unknown;
+}
+
+const REMEMBERED_KEY = "opencodeAcp.rememberedPermissions";
+const PERMISSION_ACTIONS = new Set<PermissionAction>(["allow", "ask", "deny"]);
+
+export class PermissionPolicy {
+  constructor(private readonly workspaceState: vscode.Memento) {}
+
+  public evaluate(subject: PermissionSubject): PermissionAction {
+    const rules = this.configuredRules();
+    const denied = rules.find((rule) => rule.action === "deny" && this.matches(rule, subject));
+    if (denied) {
+      return "deny";
+    }
+
+    if (rules.some((rule) => rule.action === "ask" && this.matches(rule, subject))) {
+      return "ask";
+    }
+
+    const scope = this.rememberScope(subject);
+    const remembered = this.rememberedPermissions().find((entry) => isSameScope(entry, scope));
+    if (remembered) {
+      return remembered.action;
+    }
+
+    const matched = rules.find((rule) => this.matches(rule, subject));
+    if (matched) {
+      return matched.action;
+    }
+
+    const mode = vscode.workspace.getConfiguration("opencodeAcp").get<"ask" | "allowAll">("permissionMode", "ask");
+    return mode === "allowAll" ? "allow" : "ask";
+  }
+
+  public async remember(subject: PermissionSubject, action: "allow" | "deny"): Promise<void> {
+    const scope = this.rememberScope(subject);
+    const next = this.rememberedPermissions().filter((entry) => !isSameScope(entry, scope));
+    next.push({ ...scope, action, createdAt: Date.now() });
+    await this.workspaceState.update(REMEMBERED_KEY, next);
+  }
+
+  public rememberedPermissions(): RememberedPermission[] {
+    const stored = this.workspaceState.get<unknown[]>(REMEMBERED_KEY, []);
+    if (!Array.isArray(stored)) {
+      return [];
+    }
+
+    return stored.filter((entry): entry is RememberedPermission => {
+      if (!entry || typeof entry !== "object") {
+        return false;
+      }
+      const candidate = entry as Partial<RememberedPermission>;
+      const scoped = Array.isArray(candidate.paths)
+        ? candidate.paths.every((value) => typeof value === "string")
+        : typeof candidate.command === "string";
+      return typeof candidate.kind === "string" && scoped && (candidate.action === "allow" || candidate.action === "deny");
+    });
+  }
+
+  public async manageRememberedPermissions(): Promise<void> {
+    type ManagePick = vscode.QuickPickItem & { entry?: RememberedPermission; clearAll?: boolean; openSettings?: boolean };
+
+    const remembered = this.rememberedPermissions();
+    const items: ManagePick[] = remembered.map((entry) => ({
+      label: `${entry.action === "allow" ? "Always allow" : "Always deny"} ${entry.kind}`,
+      description: entry.paths ? entry.paths.join(", ") : entry.command,
+      detail: new Date(entry.createdAt).toLocaleString(),
+      entry
+    }));
+
+    if (remembered.length) {
+      items.push({ label: "Forget all remembered choices", clearAll: true });
+    }
+    items.push({ label: "Edit permission rules in settings", openSettings: true });
+
+    const picked = await vscode.window.showQuickPick<ManagePick>(items, {
+      title: "OpenCode ACP permissions for this workspace",
+      placeHolder: remembered.length ? "Select a remembered choice to forget it" : "No remembered choices yet"
+    });
+    if (!picked) {
+      return;
+    }
+
+    if (picked.openSettings) {
+      await vscode.commands.executeCommand("workbench.action.openSettings", "opencodeAcp.permissionRules");
+      return;
+    }
+
+    if (picked.clearAll) {
+      await this.workspaceState.update(REMEMBERED_KEY, []);
+      return;
+    }
+
+    await this.workspaceState.update(
+      REMEMBERED_KEY,
+      remembered.filter((entry) => entry !== picked.entry)
+    );
+  }
+
+  private configuredRules(): PermissionRule[] {
+    const raw = vscode.workspace.getConfiguration("opencodeAcp").get<unknown[]>("permissionRules", []);
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+
+    return raw.filter((entry): entry is PermissionRule => {
+      if (!entry || typeof entry !== "object") {
+        return false;
+      }
+      const candidate = entry as Partial<PermissionRule>;
+      return typeof candidate.action === "string" && PERMISSION_ACTIONS.has(candidate.action);
+    });
+  }
+
+  private matches(rule: PermissionRule, subject: PermissionSubject): boolean {
+    if (rule.kind && rule.kind !== "*" && rule.kind !== subject.kind) {
+      return false;
+    }
+
+    if (rule.path) {
+      if (!subject.locations.length) {
+        return false;
+      }
+      const pattern = globToRegExp(rule.path);
+      const absolute = rule.path.startsWith("/") || rule.path.startsWith("~") || path.isAbsolute(rule.path);
+      const allMatch = subject.locations.every((location) => {
+        const candidate = absolute ? toPosixPath(location) : this.toWorkspaceRelative(location);
+        return candidate !== null && pattern.test(candidate);
+      });
+      if (!allMatch) {
+        return false;
+      }
+    }
+
+    if (rule.command) {
+      const haystack = `${subject.title}\n${subject.rawInput === undefined ? "" : JSON.stringify(subject.rawInput)}`;
+      if (!toCommandPattern(rule.command).test(haystack)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private rememberScope(subject: PermissionSubject): PermissionScope {
+    if (subject.locations.length) {
+      const paths = subject.locations.map((location) => this.toWorkspaceRelative(location) ?? toPosixPath(location));
+      return { kind: subject.kind, paths: [...new Set(paths)].sort() };
+    }
+
+    const input = subject.rawInput as { command?: unknown } | undefined;
+    const command = typeof input?.command === "string"
+      ? input.command
+      : Array.isArray(input?.command) ? input.command.join(" ") : subject.title;
+    return { kind: subject.kind, command };
+  }
+
+  private toWorkspaceRelative(location: string): string | null {
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const relative = path.relative(folder.uri.fsPath, location);
+      if (relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)) {
+        return relative.split(path.sep).join("/");
+      }
+    }
+    return null;
+  }
+}
+
+function isSameScope(entry: PermissionScope, scope: PermissionScope): boolean {
+  if (entry.kind !== scope.kind) {
+    return false;
+  }
+  if (entry.paths || scope.paths) {
+    return entry.paths?.length === scope.paths?.length && Boolean(entry.paths?.every((value, index) => value === scope.paths?.[index]));
+  }
+  return entry.command === scope.command;
+}
+
+function toPosixPath(value: string): string {
+  return value.split(path.sep).join("/");
+}
+
+export function toCommandPattern(value: string): RegExp {
+  try {
+    return new RegExp(value);
+  } catch {
+    return new RegExp(value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  }
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const normalized = glob.startsWith("~")
+    ? `${toPosixPath(os.homedir())}${glob.slice(1)}`
+    : glob;
+
+  let source = "";
+  for (let index = 0; index < normalized.length; index += 1) {
+    const char = normalized[index];
+    if (char === "*") {
+      if (normalized[index + 1] === "*") {
+        const followedBySlash = normalized[index + 2] === "/";
+        source += followedBySlash ? "(?:.*/)?" : ".*";
+        index += followedBySlash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "\\") {
+      source += "/";
+    } else {
+      source += char.replace(/[.+^${}()|[\]]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
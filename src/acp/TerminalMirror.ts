@@ -0,0 +1,77 @@
+import * as vscode from "vscode";
+
+const MAX_NAME_LENGTH = 40;
+
+export class TerminalMirror implements vscode.Disposable {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number | void>();
+  private readonly terminal: vscode.Terminal;
+  private pending: string[] = [];
+  private opened = false;
+  private exited = false;
+
+  constructor(commandLine: string, cwd: string, private readonly onUserClose: () => void) {
+    const pty: vscode.Pseudoterminal = {
+      onDidWrite: this.writeEmitter.event,
+      onDidClose: this.closeEmitter.event,
+      open: () => {
+        this.opened = true;
+        for (const chunk of this.pending) {
+          this.writeEmitter.fire(chunk);
+        }
+        this.pending = [];
+      },
+      close: () => {
+        if (!this.exited) {
+          this.onUserClose();
+        }
+      },
+      handleInput: (data) => {
+        if (data === "\x03" && !this.exited) {
+          this.onUserClose();
+        }
+      }
+    };
+
+    const label = commandLine.length > MAX_NAME_LENGTH
+      ? `${commandLine.slice(0, MAX_NAME_LENGTH - 1)}…`
+      : commandLine;
+    this.terminal = vscode.window.createTerminal({
+      name: `OpenCode: ${label}`,
+      pty,
+      iconPath: new vscode.ThemeIcon("robot"),
+      isTransient: true
+    });
+
+    this.emit(`\x1b[2m${cwd}\x1b[0m\r\n$ ${commandLine}\r\n`);
+  }
+
+  public write(text: string): void {
+    this.emit(text.replace(/\r?\n/g, "\r\n"));
+  }
+
+  public markExited(exitCode: number | null, signal: string | null): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    const status = signal ? `signal ${signal}` : `code ${exitCode ?? "unknown"}`;
+    this.emit(`\r\n\x1b[2m[Process exited with ${status}]\x1b[0m\r\n`);
+  }
+
+  private emit(text: string): void {
+    if (this.opened) {
+      this.writeEmitter.fire(text);
+    } else {
+      this.pending.push(text);
+    }
+  }
+
+  public dispose(): void {
+    this.exited = true;
+    this.closeEmitter.fire();
+    this.terminal.dispose();
+    this.writeEmitter.dispose();
+    this.closeEmitter.dispose();
+  }
+}
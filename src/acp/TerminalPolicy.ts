@@ -0,0 +1,81 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import * as vscode from "vscode";
+import { globToRegExp, toCommandPattern } from "./PermissionPolicy";
+
+export interface TerminalLimits {
+  timeoutMs: number;
+  maxConcurrent: number;
+}
+
+const DEFAULT_SCRUBBED_ENV = ["*TOKEN*", "*SECRET*"];
+
+export class TerminalPolicy {
+  public checkCommand(commandLine: string): string | null {
+    const config = vscode.workspace.getConfiguration("opencodeAcp");
+    const denied = toPatternList(config.get<unknown[]>("terminalDenyCommands", []))
+      .find((pattern) => toCommandPattern(pattern).test(commandLine));
+    if (denied) {
+      return `Command blocked by deny pattern '${denied}': ${commandLine}`;
+    }
+
+    const allowed = toPatternList(config.get<unknown[]>("terminalAllowCommands", []));
+    if (allowed.length && !allowed.some((pattern) => toCommandPattern(pattern).test(commandLine))) {
+      return `Command is not in the allowed command list: ${commandLine}`;
+    }
+
+    return null;
+  }
+
+  public limits(): TerminalLimits {
+    const config = vscode.workspace.getConfiguration("opencodeAcp");
+    const timeoutSeconds = config.get<number>("terminalTimeoutSeconds", 600);
+    const maxConcurrent = config.get<number>("maxConcurrentTerminals", 4);
+    return {
+      timeoutMs: Number.isFinite(timeoutSeconds) && timeoutSeconds > 0 ? timeoutSeconds * 1000 : 0,
+      maxConcurrent: Number.isFinite(maxConcurrent) && maxConcurrent > 0 ? Math.floor(maxConcurrent) : 0
+    };
+  }
+
+  public scrubEnv(env: NodeJS.ProcessEnv): { env: NodeJS.ProcessEnv; removed: string[] } {
+    const configured = vscode.workspace
+      .getConfiguration("opencodeAcp")
+      .get<unknown[]>("terminalScrubEnv", DEFAULT_SCRUBBED_ENV);
+    const patterns = toPatternList(configured).map((pattern) => new RegExp(globToRegExp(pattern).source, "i"));
+
+    const next: NodeJS.ProcessEnv = {};
+    const removed: string[] = [];
+    for (const [name, value] of Object.entries(env)) {
+      if (patterns.some((pattern) => pattern.test(name))) {
+        removed.push(name);
+      } else {
+        next[name] = value;
+      }
+    }
+    return { env: next, removed };
+  }
+}
+
+export function killProcessTree(proc: ChildProcess): void {
+  if (proc.pid === undefined || proc.exitCode !== null || proc.signalCode !== null) {
+    return;
+  }
+
+  if (process.platform === "win32") {
+    spawn("taskkill", ["/pid", String(proc.pid), "/T", "/F"], { windowsHide: true, stdio: "ignore" })
+      .on("error", () => proc.kill());
+    return;
+  }
+
+  try {
+    process.kill(-proc.pid, "SIGKILL");
+  } catch {
+    proc.kill("SIGKILL");
+  }
+}
+
+function toPatternList(value: unknown[] | undefined): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0);
+}
@@ -0,0 +1,125 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { RequestError } from "@agentclientprotocol/sdk";
+import { globToRegExp } from "./PermissionPolicy";
+
+export type FileAccess = "read" | "write";
+
+export type OutsideWorkspaceAccess = "ask" | "deny";
+
+export interface SandboxDecision {
+  requestedPath: string;
+  resolvedPath: string;
+  allowed: boolean;
+}
+
+type AllowlistMatcher = (resolvedPath: string) => boolean;
+
+const ACCESS_DENIED_CODE = -32003;
+const GLOB_CHARACTERS = /[*?]/;
+
+export class WorkspaceSandbox {
+  private allowlistKey: string | null = null;
+  private allowlist: Promise<AllowlistMatcher[]> = Promise.resolve([]);
+
+  public async check(requestedPath: string): Promise<SandboxDecision> {
+    if (!path.isAbsolute(requestedPath)) {
+      throw RequestError.invalidParams({ path: requestedPath }, "File paths must be absolute");
+    }
+
+    const resolvedPath = await resolveRealPath(path.normalize(requestedPath));
+    const roots = await this.allowedRoots();
+    const allowed = roots.some((root) => isInside(root, resolvedPath)) || await this.matchesAllowlist(resolvedPath);
+    return { requestedPath, resolvedPath, allowed };
+  }
+
+  public outsideWorkspaceAccess(): OutsideWorkspaceAccess {
+    return vscode.workspace
+      .getConfiguration("opencodeAcp")
+      .get<OutsideWorkspaceAccess>("fileAccessOutsideWorkspace", "ask");
+  }
+
+  public accessDenied(decision: SandboxDecision, access: FileAccess, reason: string): RequestError {
+    return new RequestError(
+      ACCESS_DENIED_CODE,
+      `${access === "read" ? "Read" : "Write"} access denied: ${decision.requestedPath} (${reason})`,
+      {
+        path: decision.requestedPath,
+        resolvedPath: decision.resolvedPath,
+        access,
+        reason
+      }
+    );
+  }
+
+  private async allowedRoots(): Promise<string[]> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return Promise.all(folders.map((folder) => resolveRealPath(folder.uri.fsPath)));
+  }
+
+  private async matchesAllowlist(resolvedPath: string): Promise<boolean> {
+    const entries = vscode.workspace.getConfiguration("opencodeAcp").get<unknown[]>("fileAccessAllowlist", []);
+    const key = JSON.stringify(entries);
+    if (key !== this.allowlistKey) {
+      this.allowlistKey = key;
+      this.allowlist = resolveAllowlist(entries);
+    }
+    return (await this.allowlist).some((matches) => matches(resolvedPath));
+  }
+}
+
+// Allowlist roots are canonicalized like the paths they are checked against, so symlinked entries such as /tmp still match.
+async function resolveAllowlist(entries: unknown): Promise<AllowlistMatcher[]> {
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const matchers: AllowlistMatcher[] = [];
+  for (const entry of entries) {
+    if (typeof entry !== "string" || !entry.trim()) {
+      continue;
+    }
+    const pattern = entry.trim().startsWith("~") ? path.join(os.homedir(), entry.trim().slice(1)) : entry.trim();
+    if (GLOB_CHARACTERS.test(pattern)) {
+      const segments = pattern.split(/[\\/]/);
+      const firstGlob = segments.findIndex((segment) => GLOB_CHARACTERS.test(segment));
+      const prefix = segments.slice(0, firstGlob).join("/");
+      const root = prefix && path.isAbsolute(prefix) ? toPosixPath(await resolveRealPath(path.resolve(prefix))) : prefix;
+      const glob = globToRegExp([root, ...segments.slice(firstGlob)].join("/"));
+      matchers.push((resolvedPath) => glob.test(toPosixPath(resolvedPath)));
+    } else if (path.isAbsolute(pattern)) {
+      const directory = await resolveRealPath(path.resolve(pattern));
+      matchers.push((resolvedPath) => isInside(directory, resolvedPath));
+    }
+  }
+  return matchers;
+}
+
+function toPosixPath(value: string): string {
+  return value.split(path.sep).join("/");
+}
+
+async function resolveRealPath(target: string): Promise<string> {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      const real = await fs.realpath(current);
+      return missing.length ? path.join(real, ...missing.reverse()) : real;
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return target;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
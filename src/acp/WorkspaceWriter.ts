@@ -0,0 +1,260 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { RequestError } from "@agentclientprotocol/sdk";
+
+const PROPOSED_SCHEME = "opencode-acp-proposed";
+const WRITE_REJECTED_CODE = -32004;
+
+export interface RevertHunk {
+  newStart: number;
+  lines: Array<{ type: " " | "+" | "-"; text: string }>;
+}
+
+export class WorkspaceWriter implements vscode.Disposable {
+  private readonly proposals = new Map<string, string>();
+  private readonly registrations: vscode.Disposable[];
+  private proposalCounter = 0;
+
+  constructor() {
+    this.registrations = [
+      vscode.workspace.registerTextDocumentContentProvider(PROPOSED_SCHEME, {
+        provideTextDocumentContent: (uri) => this.proposals.get(uri.toString()) ?? ""
+      }),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        if (document.uri.scheme === PROPOSED_SCHEME) {
+          this.proposals.delete(document.uri.toString());
+        }
+      })
+    ];
+  }
+
+  public async showDiff(filePath: string, oldText: string | null, newText: string): Promise<void> {
+    const id = ++this.proposalCounter;
+    const basePath = vscode.Uri.file(filePath).path;
+    const originalUri = vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: basePath, query: `${id}-original` });
+    const modifiedUri = vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: basePath, query: `${id}-modified` });
+    this.proposals.set(originalUri.toString(), oldText ?? "");
+    this.proposals.set(modifiedUri.toString(), newText);
+
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      originalUri,
+      modifiedUri,
+      `${path.basename(filePath)} (agent edit)`,
+      { preview: true }
+    );
+  }
+
+  public async revertFile(filePath: string, oldText: string | null, newText: string): Promise<boolean> {
+    const uri = vscode.Uri.file(filePath);
+    const current = await this.exists(uri) ? await vscode.workspace.openTextDocument(uri) : null;
+    if (current && current.getText() !== newText) {
+      const choice = await vscode.window.showWarningMessage(
+        `${vscode.workspace.asRelativePath(uri)} changed after the agent edit. Revert to the version before the edit anyway?`,
+        { modal: true },
+        "Revert"
+      );
+      if (choice !== "Revert") {
+        return false;
+      }
+    }
+
+    await this.restore(filePath, oldText);
+    return true;
+  }
+
+  public async restore(filePath: string, content: string | null): Promise<void> {
+    const uri = vscode.Uri.file(filePath);
+    const current = await this.exists(uri) ? await vscode.workspace.openTextDocument(uri) : null;
+    const edit = new vscode.WorkspaceEdit();
+    if (content === null) {
+      if (!current) {
+        return;
+      }
+      edit.deleteFile(uri, { ignoreIfNotExists: true });
+    } else if (current) {
+      if (current.getText() === content) {
+        return;
+      }
+      edit.replace(uri, current.validateRange(new vscode.Range(0, 0, current.lineCount, 0)), content);
+    } else {
+      await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(filePath)));
+      edit.createFile(uri, { ignoreIfExists: true, contents: Buffer.from(content, "utf8") });
+    }
+
+    await this.applyAndSave(uri, edit, content !== null);
+  }
+
+  public async revertHunk(filePath: string, hunk: RevertHunk): Promise<void> {
+    const uri = vscode.Uri.file(filePath);
+    const document = await vscode.workspace.openTextDocument(uri);
+    const currentLines = document.getText().split(/\r?\n/);
+    const expected = hunk.lines.filter((line) => line.type !== "-").map((line) => line.text);
+    const replacement = hunk.lines.filter((line) => line.type !== "+").map((line) => line.text);
+
+    const start = findBlock(currentLines, expected, Math.max(0, hunk.newStart - 1));
+    if (start < 0) {
+      throw new Error(`${vscode.workspace.asRelativePath(uri)} changed after the agent edit; the hunk cannot be reverted`);
+    }
+
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const edit = new vscode.WorkspaceEdit();
+    if (start + expected.length >= currentLines.length) {
+      const range = document.validateRange(new vscode.Range(start, 0, document.lineCount, 0));
+      edit.replace(uri, range, replacement.join(eol));
+    } else {
+      const range = new vscode.Range(start, 0, start + expected.length, 0);
+      edit.replace(uri, range, replacement.length ? `${replacement.join(eol)}${eol}` : "");
+    }
+
+    await this.applyAndSave(uri, edit, true);
+  }
+
+  private async applyAndSave(uri: vscode.Uri, edit: vscode.WorkspaceEdit, save: boolean): Promise<void> {
+    const wasDirty = this.hasUnsavedChanges(uri);
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      throw new Error(`Failed to apply edit to ${uri.fsPath}`);
+    }
+    if (save) {
+      await this.saveUnlessDirty(uri, wasDirty);
+    }
+  }
+
+  private hasUnsavedChanges(uri: vscode.Uri): boolean {
+    return vscode.workspace.textDocuments.some((document) => document.uri.toString() === uri.toString() && document.isDirty);
+  }
+
+  private async saveUnlessDirty(uri: vscode.Uri, wasDirty: boolean): Promise<void> {
+    if (wasDirty) {
+      void vscode.window.showWarningMessage(
+        `${vscode.workspace.asRelativePath(uri)} had unsaved changes, so the edit was applied in the editor but not saved.`
+      );
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    if (document.isDirty) {
+      await document.save();
+    }
+  }
+
+  public async write(filePath: string, content: string): Promise<void> {
+    const uri = vscode.Uri.file(filePath);
+    const exists = await this.exists(uri);
+    const current = exists ? await vscode.workspace.openTextDocument(uri) : null;
+    if (current && current.getText() === content) {
+      return;
+    }
+
+    if (this.isReviewEnabled()) {
+      await this.review(uri, exists, content);
+    }
+
+    const wasDirty = this.hasUnsavedChanges(uri);
+    const edit = new vscode.WorkspaceEdit();
+    if (current) {
+      const fullRange = current.validateRange(new vscode.Range(0, 0, current.lineCount, 0));
+      edit.replace(uri, fullRange, content);
+    } else {
+      await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(filePath)));
+      edit.createFile(uri, { ignoreIfExists: true, contents: Buffer.from(content, "utf8") });
+    }
+
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      throw RequestError.internalError({ path: filePath }, `Failed to apply edit to ${filePath}`);
+    }
+
+    await this.saveUnlessDirty(uri, wasDirty);
+  }
+
+  private async review(uri: vscode.Uri, exists: boolean, content: string): Promise<void> {
+    const proposedUri = vscode.Uri.from({
+      scheme: PROPOSED_SCHEME,
+      path: uri.path,
+      query: String(++this.proposalCounter)
+    });
+    const originalUri = exists
+      ? uri
+      : vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: uri.path, query: `${this.proposalCounter}-empty` });
+
+    this.proposals.set(proposedUri.toString(), content);
+    if (!exists) {
+      this.proposals.set(originalUri.toString(), "");
+    }
+
+    const fileName = path.basename(uri.fsPath);
+    try {
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        originalUri,
+        proposedUri,
+        `${fileName} (agent proposal)`,
+        { preview: true }
+      );
+
+      const choice = await vscode.window.showInformationMessage(
+        `OpenCode wants to ${exists ? "modify" : "create"} ${vscode.workspace.asRelativePath(uri)}`,
+        "Accept",
+        "Reject"
+      );
+      if (choice !== "Accept") {
+        throw new RequestError(
+          WRITE_REJECTED_CODE,
+          `Write to ${uri.fsPath} was rejected by the user`,
+          { path: uri.fsPath }
+        );
+      }
+    } finally {
+      await this.closeDiff(proposedUri);
+      this.proposals.delete(proposedUri.toString());
+      if (!exists) {
+        this.proposals.delete(originalUri.toString());
+      }
+    }
+  }
+
+  private async closeDiff(proposedUri: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter((tab) => tab.input instanceof vscode.TabInputTextDiff
+        && tab.input.modified.toString() === proposedUri.toString());
+    if (tabs.length) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+  }
+
+  private async exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private isReviewEnabled(): boolean {
+    return vscode.workspace.getConfiguration("opencodeAcp").get<boolean>("reviewWrites", false);
+  }
+
+  public dispose(): void {
+    for (const registration of this.registrations) {
+      registration.dispose();
+    }
+    this.proposals.clear();
+  }
+}
+
+function findBlock(lines: string[], block: string[], preferredStart: number): number {
+  const matchesAt = (start: number) => block.every((text, offset) => lines[start + offset] === text);
+  const lastStart = lines.length - block.length;
+  for (let distance = 0; distance <= lines.length; distance += 1) {
+    for (const start of [preferredStart - distance, preferredStart + distance]) {
+      if (start >= 0 && start <= lastStart && matchesAt(start)) {
+        return start;
+      }
+    }
+  }
+  return -1;
+}
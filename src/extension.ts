@@ -1,12 +1,18 @@
 import * as vscode from "vscode";
 import { AcpClient } from "./acp/AcpClient";
+import { PermissionPolicy } from "./acp/PermissionPolicy";
+import { WorkspaceWriter } from "./acp/WorkspaceWriter";
 import { ChatViewProvider } from "./ui/ChatViewProvider";
+import { AgentCodeActionProvider, EDITOR_ACTION_COMMANDS, type EditorActionKind } from "./ui/EditorActions";
 
 export function activate(context: vscode.ExtensionContext): void {
-  const acpClient = new AcpClient();
-  const chatProvider = new ChatViewProvider(context.extensionUri, acpClient);
+  const permissionPolicy = new PermissionPolicy(context.workspaceState);
+  const workspaceWriter = new WorkspaceWriter();
+  const acpClient = new AcpClient(permissionPolicy, workspaceWriter);
+  const chatProvider = new ChatViewProvider(context.extensionUri, acpClient, workspaceWriter, context.globalState);
 
   context.subscriptions.push(
+    workspaceWriter,
     acpClient,
     chatProvider,
     vscode.window.registerWebviewViewProvider(ChatViewProvider.viewType, chatProvider),
@@ -24,7 +30,51 @@ export function activate(context: vscode.ExtensionContext): void {
     }),
     vscode.commands.registerCommand("opencodeAcp.showLog", () => {
       chatProvider.showLogs();
-    })
+    }),
+    vscode.commands.registerCommand("opencodeAcp.managePermissions", async () => {
+      await permissionPolicy.manageRememberedPermissions();
+    }),
+    vscode.commands.registerCommand("opencodeAcp.renameChat", async (chatId?: string) => {
+      await chatProvider.renameChat(typeof chatId === "string" ? chatId : undefined);
+    }),
+    vscode.commands.registerCommand("opencodeAcp.pinChat", async (chatId?: string) => {
+      await chatProvider.togglePinChat(typeof chatId === "string" ? chatId : undefined);
+    }),
+    vscode.commands.registerCommand("opencodeAcp.tagChat", async (chatId?: string) => {
+      await chatProvider.editChatTags(typeof chatId === "string" ? chatId : undefined);
+    }),
+    vscode.commands.registerCommand("opencodeAcp.archiveChat", async (chatId?: string) => {
+      await chatProvider.toggleArchiveChat(typeof chatId === "string" ? chatId : undefined);
+    }),
+    vscode.commands.registerCommand("opencodeAcp.exportChat", async (chatId?: string) => {
+      await chatProvider.exportChat(typeof chatId === "string" ? chatId : undefined);
+    }),
+    vscode.commands.registerCommand("opencodeAcp.importChat", async () => {
+      await chatProvider.importChat();
+    }),
+    vscode.languages.registerCodeActionsProvider({ scheme: "file" }, new AgentCodeActionProvider(), {
+      providedCodeActionKinds: AgentCodeActionProvider.providedCodeActionKinds
+    }),
+    ...(Object.keys(EDITOR_ACTION_COMMANDS) as EditorActionKind[]).map((kind) =>
+      vscode.commands.registerCommand(
+        EDITOR_ACTION_COMMANDS[kind],
+        async (uri?: vscode.Uri, range?: vscode.Range, diagnostics?: vscode.Diagnostic[]) => {
+          const editor = vscode.window.activeTextEditor;
+          const target = uri instanceof vscode.Uri ? uri : editor?.document.uri;
+          if (!target) {
+            void vscode.window.showInformationMessage("Open a file to send it to OpenCode.");
+            return;
+          }
+
+          const sameEditor = editor?.document.uri.toString() === target.toString();
+          const targetRange = range instanceof vscode.Range ? range : sameEditor ? editor.selection : new vscode.Range(0, 0, 0, 0);
+          const targetDiagnostics = Array.isArray(diagnostics)
+            ? diagnostics
+            : vscode.languages.getDiagnostics(target).filter((diagnostic) => diagnostic.range.intersection(targetRange));
+          await chatProvider.runEditorAction(kind, target, targetRange, targetDiagnostics);
+        }
+      )
+    )
   );
 }
 
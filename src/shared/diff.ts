@@ -0,0 +1,151 @@
+const CONTEXT_LINES = 3;
+const MAX_LCS_CELLS = 4_000_000;
+
+export interface DiffLine {
+  type: " " | "+" | "-";
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export interface LineDiff {
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+}
+
+export function computeLineDiff(oldText: string | null, newText: string): LineDiff {
+  const oldLines = oldText === null || oldText === "" ? [] : oldText.split(/\r?\n/);
+  const newLines = newText === "" ? [] : newText.split(/\r?\n/);
+  const lines = diffLines(oldLines, newLines);
+
+  let added = 0;
+  let removed = 0;
+  for (const line of lines) {
+    if (line.type === "+") {
+      added += 1;
+    } else if (line.type === "-") {
+      removed += 1;
+    }
+  }
+
+  return { hunks: groupHunks(lines), added, removed };
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix
+    && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const head: DiffLine[] = oldLines.slice(0, prefix).map((text) => ({ type: " ", text }));
+  const tail: DiffLine[] = oldLines.slice(oldLines.length - suffix).map((text) => ({ type: " ", text }));
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  return [...head, ...diffMiddle(oldMiddle, newMiddle), ...tail];
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  if (!oldLines.length || !newLines.length || oldLines.length * newLines.length > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map((text): DiffLine => ({ type: "-", text })),
+      ...newLines.map((text): DiffLine => ({ type: "+", text }))
+    ];
+  }
+
+  const rows = oldLines.length + 1;
+  const cols = newLines.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = oldLines.length - 1; i >= 0; i -= 1) {
+    for (let j = newLines.length - 1; j >= 0; j -= 1) {
+      lengths[i * cols + j] = oldLines[i] === newLines[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: " ", text: oldLines[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      result.push({ type: "-", text: oldLines[i] });
+      i += 1;
+    } else {
+      result.push({ type: "+", text: newLines[j] });
+      j += 1;
+    }
+  }
+  for (; i < oldLines.length; i += 1) {
+    result.push({ type: "-", text: oldLines[i] });
+  }
+  for (; j < newLines.length; j += 1) {
+    result.push({ type: "+", text: newLines[j] });
+  }
+  return result;
+}
+
+function groupHunks(lines: DiffLine[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  let current: DiffHunk | null = null;
+  let trailingContext = 0;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (line.type !== " ") {
+      if (!current) {
+        const contextStart = Math.max(0, index - CONTEXT_LINES);
+        const context = lines.slice(contextStart, index);
+        current = {
+          oldStart: oldLine - context.length,
+          newStart: newLine - context.length,
+          lines: [...context]
+        };
+      }
+      current.lines.push(line);
+      trailingContext = 0;
+    } else if (current) {
+      const nextChange = lines.slice(index, index + CONTEXT_LINES * 2 + 1).findIndex((entry) => entry.type !== " ");
+      if (trailingContext < CONTEXT_LINES || nextChange >= 0) {
+        current.lines.push(line);
+        trailingContext += 1;
+      } else {
+        hunks.push(current);
+        current = null;
+        trailingContext = 0;
+      }
+    }
+
+    if (line.type !== "+") {
+      oldLine += 1;
+    }
+    if (line.type !== "-") {
+      newLine += 1;
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+}
@@ -0,0 +1,12 @@
+import { marked } from "marked";
+
+export function sanitizeHtml(html: string): string {
+  return html
+    .replace(/<script[\s\S]*?>[\s\S]*?<\/script>/gi, "")
+    .replace(/\son\w+=("[^"]*"|'[^']*')/gi, "")
+    .replace(/javascript:/gi, "");
+}
+
+export function renderMarkdown(text: string): string {
+  return sanitizeHtml(marked.parse(text, { breaks: true, gfm: true }) as string);
+}
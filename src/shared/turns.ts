@@ -0,0 +1,19 @@
+export type TurnActivity = { type: "thought"; text: string } | { type: "tool" | "notice" };
+
+export interface TurnContent {
+  text: string;
+  activity: readonly TurnActivity[];
+  plan: readonly unknown[];
+  interrupted?: boolean;
+  checkpoint?: unknown;
+}
+
+// The host and the webview both drop empty assistant turns, and message ordinals
+// only line up while they agree on which turns those are.
+export function isEmptyTurn(turn: TurnContent): boolean {
+  return !turn.text.trim()
+    && turn.activity.every((entry) => entry.type === "thought" && !entry.text.trim())
+    && !turn.plan.length
+    && !turn.interrupted
+    && !turn.checkpoint;
+}
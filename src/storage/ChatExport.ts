@@ -0,0 +1,274 @@
+import { computeLineDiff } from "../shared/diff";
+import { renderMarkdown } from "../shared/markdown";
+import {
+  CHAT_SCHEMA_VERSION,
+  migrateChatData,
+  type ChatData,
+  type ChatMessage,
+  type StoredActivity,
+  type StoredToolContent
+} from "./SessionStorage";
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+export const EXPORT_FORMAT_ID = "opencode-acp-chat";
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html"
+};
+
+const MESSAGE_ROLES = new Set<ChatMessage["role"]>(["user", "assistant", "error"]);
+
+export function exportFileName(chat: ChatData, format: ExportFormat): string {
+  const slug = chatTitle(chat)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "chat"}.${EXPORT_EXTENSIONS[format]}`;
+}
+
+export function exportChat(chat: ChatData, format: ExportFormat, css: string): string {
+  switch (format) {
+    case "json":
+      return chatToJson(chat);
+    case "html":
+      return chatToHtml(chat, css);
+    default:
+      return chatToMarkdown(chat);
+  }
+}
+
+export function chatToJson(chat: ChatData): string {
+  return JSON.stringify({ format: EXPORT_FORMAT_ID, exportedAt: Date.now(), chat }, null, 2);
+}
+
+export function parseChatExport(content: string): ChatData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const envelope = raw as { format?: unknown; chat?: unknown };
+  if (envelope && typeof envelope === "object" && "format" in envelope && envelope.format !== EXPORT_FORMAT_ID) {
+    throw new Error(`Unsupported export format: ${String(envelope.format)}`);
+  }
+  const data = envelope && typeof envelope === "object" && "chat" in envelope ? envelope.chat : raw;
+
+  const chat = data as Partial<ChatData> | null;
+  if (!chat || typeof chat !== "object" || typeof chat.id !== "string" || !chat.id) {
+    throw new Error("The export does not contain a chat");
+  }
+  if (typeof chat.schemaVersion === "number" && chat.schemaVersion > CHAT_SCHEMA_VERSION) {
+    throw new Error(`The chat was exported by a newer version (schema ${chat.schemaVersion})`);
+  }
+  if (typeof chat.title !== "string" || typeof chat.createdAt !== "number" || typeof chat.updatedAt !== "number") {
+    throw new Error("The chat is missing its title or timestamps");
+  }
+  if (!Array.isArray(chat.messages)) {
+    throw new Error("The chat has no message list");
+  }
+  chat.messages.forEach((message: unknown, index) => {
+    const entry = message as Partial<ChatMessage> | null;
+    if (
+      !entry
+      || typeof entry !== "object"
+      || !MESSAGE_ROLES.has(entry.role as ChatMessage["role"])
+      || typeof entry.content !== "string"
+      || (entry.activity !== undefined && !Array.isArray(entry.activity))
+      || (entry.plan !== undefined && !Array.isArray(entry.plan))
+    ) {
+      throw new Error(`Message ${index + 1} is malformed`);
+    }
+  });
+
+  const migrated = migrateChatData(chat);
+  if (!migrated) {
+    throw new Error("The chat could not be read");
+  }
+  return migrated.chat;
+}
+
+export function chatToMarkdown(chat: ChatData): string {
+  const lines: string[] = [`# ${chatTitle(chat)}`, "", `_Exported ${new Date().toLocaleString()}_`, ""];
+
+  for (const message of chat.messages) {
+    if (message.role === "error") {
+      lines.push(`> **Error:** ${message.content.replace(/\n/g, "\n> ")}`, "");
+      continue;
+    }
+
+    lines.push(`## ${message.role === "user" ? "User" : "Assistant"}`, "");
+    if (message.attachments?.length) {
+      lines.push(`Attachments: ${message.attachments.map((attachment) => `\`${attachment.name}\``).join(", ")}`, "");
+    }
+    if (message.plan?.length) {
+      lines.push("**Plan**", "");
+      for (const entry of message.plan) {
+        lines.push(`- [${entry.status === "completed" ? "x" : " "}] ${entry.content}`);
+      }
+      lines.push("");
+    }
+    for (const activity of message.activity ?? []) {
+      lines.push(...activityToMarkdown(activity), "");
+    }
+    if (message.content.trim()) {
+      lines.push(message.content, "");
+    }
+    if (message.interrupted) {
+      lines.push("_Interrupted_", "");
+    }
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+function activityToMarkdown(activity: StoredActivity): string[] {
+  if (activity.type === "notice") {
+    return [`> ${activity.message}`];
+  }
+  if (activity.type === "thought") {
+    return ["<details>", `<summary>Thought ${activity.elapsedSeconds}s</summary>`, "", activity.text, "", "</details>"];
+  }
+
+  const lines = ["<details>", `<summary>${escapeHtml(activity.title)} (${activity.status})</summary>`, ""];
+  for (const location of activity.locations) {
+    lines.push(`- \`${location}\``);
+  }
+  if (activity.locations.length) {
+    lines.push("");
+  }
+  for (const content of activity.content) {
+    lines.push(...toolContentToMarkdown(content), "");
+  }
+  lines.push("</details>");
+  return lines;
+}
+
+function toolContentToMarkdown(content: StoredToolContent): string[] {
+  if (content.type === "text") {
+    return [fence(content.text, "")];
+  }
+  if (content.type === "terminal") {
+    return content.snapshot ? [fence(content.snapshot.output, "console")] : [];
+  }
+
+  const diff = computeLineDiff(content.oldText, content.newText);
+  const body = diff.hunks
+    .map((hunk) => [`@@ -${hunk.oldStart} +${hunk.newStart} @@`, ...hunk.lines.map((line) => `${line.type}${line.text}`)].join("\n"))
+    .join("\n");
+  return [`\`${content.path}\``, "", fence(body, "diff")];
+}
+
+function fence(text: string, language: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${language}\n${text.replace(/\n$/, "")}\n${marker}`;
+}
+
+export function chatToHtml(chat: ChatData, css: string): string {
+  const body = chat.messages.map((message) => messageToHtml(message)).join("\n");
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src data:" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(chatTitle(chat))}</title>
+    <style>
+${css}
+html, body { height: auto; }
+.chat-export { max-width: 860px; margin: 0 auto; padding: 16px; }
+.chat-export h1 { font-size: 16px; margin: 0 0 4px; }
+.chat-export .chat-meta { margin-bottom: 14px; }
+.chat-export .messages { overflow: visible; }
+.chat-export details > summary { cursor: pointer; }
+    </style>
+  </head>
+  <body>
+    <div class="chat-export">
+      <h1>${escapeHtml(chatTitle(chat))}</h1>
+      <div class="chat-meta">${escapeHtml(new Date(chat.createdAt).toLocaleString())}</div>
+      <main class="messages">
+${body}
+      </main>
+    </div>
+  </body>
+</html>
+`;
+}
+
+function messageToHtml(message: ChatMessage): string {
+  if (message.role === "error") {
+    return `<div class="message error">${escapeHtml(message.content)}</div>`;
+  }
+  if (message.role === "user") {
+    const attachments = message.attachments?.length
+      ? `<div class="attachment-row">${message.attachments
+        .map((attachment) => `<span class="attachment-chip">${escapeHtml(attachment.name)}</span>`)
+        .join("")}</div>`
+      : "";
+    return `<div class="message user">${escapeHtml(message.content)}${attachments}</div>`;
+  }
+
+  const parts: string[] = [];
+  if (message.plan?.length) {
+    const completed = message.plan.filter((entry) => entry.status === "completed").length;
+    parts.push(`<div class="plan-checklist"><div class="plan-header"><span>Plan</span><span class="plan-progress">${completed}/${message.plan.length}</span></div><ul class="plan-entries">${message.plan
+      .map((entry) => `<li class="plan-entry is-${entry.status.replace("_", "-")} is-${entry.priority}"><span class="plan-entry-content">${escapeHtml(entry.content)}</span></li>`)
+      .join("")}</ul></div>`);
+  }
+  for (const activity of message.activity ?? []) {
+    parts.push(activityToHtml(activity));
+  }
+  parts.push(`<div class="assistant-answer">${renderMarkdown(message.content)}</div>`);
+  if (message.interrupted) {
+    parts.push(`<div class="assistant-interrupted">Interrupted</div>`);
+  }
+  return `<div class="message assistant">${parts.join("")}</div>`;
+}
+
+function activityToHtml(activity: StoredActivity): string {
+  if (activity.type === "notice") {
+    return `<div class="activity-notice">${escapeHtml(activity.message)}</div>`;
+  }
+  if (activity.type === "thought") {
+    return `<details><summary class="thought-label">Thought ${activity.elapsedSeconds}s</summary><div class="thought-content">${renderMarkdown(activity.text)}</div></details>`;
+  }
+
+  const content = activity.content.map((item) => toolContentToHtml(item)).join("");
+  return `<div class="tool-row">${escapeHtml(activity.title)}</div>${content}`;
+}
+
+function toolContentToHtml(content: StoredToolContent): string {
+  if (content.type === "text") {
+    return content.text.trim() ? `<div class="tool-content-text">${escapeHtml(content.text)}</div>` : "";
+  }
+  if (content.type === "terminal") {
+    const output = content.snapshot?.output ?? "";
+    return `<details class="terminal-pane"><summary class="terminal-pane-header"><span class="terminal-pane-label">Terminal</span></summary><pre class="terminal-pane-output">${escapeHtml(output)}</pre></details>`;
+  }
+
+  const diff = computeLineDiff(content.oldText, content.newText);
+  const fileName = content.path.split(/[\\/]/).pop() ?? content.path;
+  const hunks = diff.hunks.map((hunk) => `<div class="diff-hunk"><div class="diff-hunk-header"><span>@@ -${hunk.oldStart} +${hunk.newStart} @@</span></div><div class="diff-lines">${hunk.lines
+    .map((line) => `<div class="diff-line${line.type === "+" ? " is-added" : line.type === "-" ? " is-removed" : ""}">${escapeHtml(`${line.type}${line.text}`)}</div>`)
+    .join("")}</div></div>`).join("");
+  return `<div class="diff-card"><div class="diff-header"><span class="diff-path" title="${escapeHtml(content.path)}">${escapeHtml(fileName)}</span><span class="diff-count is-added">+${diff.added}</span><span class="diff-count is-removed">-${diff.removed}</span></div><div class="diff-body">${hunks}</div></div>`;
+}
+
+function chatTitle(chat: ChatData): string {
+  return chat.customTitle || chat.title;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,162 @@
+import type {
+  ChatData,
+  ChatInput,
+  ChatMessage,
+  CheckpointSummary,
+  StoredActivity,
+  StoredToolContent,
+  StoredUsage
+} from "./SessionStorage";
+
+const MESSAGE_ROLES = new Set<unknown>(["user", "assistant", "error"]);
+const ATTACHMENT_KINDS = new Set<unknown>(["image", "file", "mention"]);
+const CHECKPOINT_CHANGES = new Set<unknown>(["created", "modified", "deleted"]);
+
+// Chat files and imports are untrusted JSON: keep only well-formed fields so renderers and the search index can rely on the stored types.
+export function sanitizeChatData(chat: Partial<ChatData> & { id: string }): ChatInput {
+  return {
+    id: chat.id,
+    title: isString(chat.title) ? chat.title : "Chat",
+    createdAt: isNumber(chat.createdAt) ? chat.createdAt : Date.now(),
+    updatedAt: isNumber(chat.updatedAt) ? chat.updatedAt : Date.now(),
+    ...(isString(chat.sessionId) ? { sessionId: chat.sessionId } : {}),
+    ...(isString(chat.workspaceKey) ? { workspaceKey: chat.workspaceKey } : {}),
+    ...(isString(chat.workspaceName) ? { workspaceName: chat.workspaceName } : {}),
+    ...(isString(chat.customTitle) ? { customTitle: chat.customTitle } : {}),
+    ...(chat.pinned === true ? { pinned: true } : {}),
+    ...(chat.archived === true ? { archived: true } : {}),
+    ...(Array.isArray(chat.tags) ? { tags: chat.tags.filter(isString) } : {}),
+    ...(isString(chat.parentChatId) ? { parentChatId: chat.parentChatId } : {}),
+    ...(isNumber(chat.forkedFromMessage) ? { forkedFromMessage: chat.forkedFromMessage } : {}),
+    messages: sanitizeMessages(chat.messages)
+  };
+}
+
+function sanitizeMessages(messages: unknown): ChatMessage[] {
+  if (!Array.isArray(messages)) {
+    return [];
+  }
+  return messages.flatMap((message: unknown) => {
+    const entry = message as Partial<ChatMessage> | null;
+    if (!entry || typeof entry !== "object" || !MESSAGE_ROLES.has(entry.role) || !isString(entry.content)) {
+      return [];
+    }
+
+    const versions = Array.isArray(entry.versions)
+      ? entry.versions.map(sanitizeMessages).filter((version) => version[0]?.role === entry.role)
+      : [];
+    const sanitized: ChatMessage = {
+      role: entry.role as ChatMessage["role"],
+      content: entry.content,
+      timestamp: isNumber(entry.timestamp) ? entry.timestamp : Date.now(),
+      ...(entry.interrupted === true ? { interrupted: true } : {}),
+      ...(Array.isArray(entry.attachments)
+        ? {
+          attachments: entry.attachments.filter((attachment) =>
+            isObject(attachment) && isString(attachment.name) && ATTACHMENT_KINDS.has(attachment.kind))
+        }
+        : {}),
+      ...(Array.isArray(entry.plan)
+        ? {
+          plan: entry.plan.filter((item) =>
+            isObject(item) && isString(item.content) && isString(item.priority) && isString(item.status))
+        }
+        : {}),
+      ...(Array.isArray(entry.activity) ? { activity: entry.activity.flatMap(sanitizeActivity) } : {}),
+      ...(isString(entry.stopReason) ? { stopReason: entry.stopReason } : {}),
+      ...(isUsage(entry.usage) ? { usage: entry.usage } : {}),
+      ...(isCheckpointSummary(entry.checkpoint) ? { checkpoint: entry.checkpoint } : {}),
+      ...(versions.length ? { versions, versionIndex: isNumber(entry.versionIndex) ? entry.versionIndex : versions.length } : {})
+    };
+    return [sanitized];
+  });
+}
+
+function sanitizeActivity(activity: unknown): StoredActivity[] {
+  if (!isObject(activity)) {
+    return [];
+  }
+  switch (activity.type) {
+    case "thought":
+      return isString(activity.text)
+        ? [{ type: "thought", text: activity.text, elapsedSeconds: isNumber(activity.elapsedSeconds) ? activity.elapsedSeconds : 0 }]
+        : [];
+    case "notice":
+      return isString(activity.message) ? [{ type: "notice", message: activity.message }] : [];
+    case "tool":
+      return isString(activity.toolCallId) && isString(activity.title)
+        ? [{
+          type: "tool",
+          toolCallId: activity.toolCallId,
+          title: activity.title,
+          kind: isString(activity.kind) ? activity.kind : "other",
+          status: isString(activity.status) ? activity.status : "completed",
+          locations: Array.isArray(activity.locations) ? activity.locations.filter(isString) : [],
+          content: Array.isArray(activity.content) ? activity.content.flatMap(sanitizeToolContent) : []
+        }]
+        : [];
+    default:
+      return [];
+  }
+}
+
+function sanitizeToolContent(content: unknown): StoredToolContent[] {
+  if (!isObject(content)) {
+    return [];
+  }
+  switch (content.type) {
+    case "text":
+      return isString(content.text) ? [{ type: "text", text: content.text }] : [];
+    case "terminal": {
+      if (!isString(content.terminalId)) {
+        return [];
+      }
+      const snapshot = content.snapshot;
+      const valid = isObject(snapshot) && isString(snapshot.output);
+      return [{
+        type: "terminal",
+        terminalId: content.terminalId,
+        snapshot: valid
+          ? {
+            terminalId: content.terminalId,
+            output: snapshot.output as string,
+            truncated: snapshot.truncated === true,
+            exitCode: isNumber(snapshot.exitCode) ? snapshot.exitCode : null,
+            signal: isString(snapshot.signal) ? snapshot.signal : null,
+            running: false
+          }
+          : null
+      }];
+    }
+    case "diff":
+      return isString(content.path) && isString(content.newText) && (content.oldText === null || isString(content.oldText))
+        ? [{ type: "diff", path: content.path, oldText: content.oldText as string | null, newText: content.newText }]
+        : [];
+    default:
+      return [];
+  }
+}
+
+function isCheckpointSummary(value: unknown): value is CheckpointSummary {
+  return isObject(value)
+    && isString(value.id)
+    && Array.isArray(value.files)
+    && value.files.every((file) =>
+      isObject(file) && isString(file.path) && CHECKPOINT_CHANGES.has(file.change) && isNumber(file.added) && isNumber(file.removed) && typeof file.restorable === "boolean");
+}
+
+function isUsage(value: unknown): value is StoredUsage {
+  return isObject(value) && isNumber(value.inputTokens) && isNumber(value.outputTokens) && isNumber(value.totalTokens);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
@@ -0,0 +1,206 @@
+import type { ChatData, ChatMessage } from "./SessionStorage";
+
+export type SearchField = "title" | "message" | "location";
+
+export interface SearchMatch {
+  field: SearchField;
+  role?: ChatMessage["role"];
+  messageIndex?: number;
+  snippet: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchResult {
+  chatId: string;
+  title: string;
+  updatedAt: number;
+  workspaceName?: string;
+  matches: SearchMatch[];
+}
+
+interface SearchText {
+  field: SearchField;
+  messageIndex?: number;
+  role?: ChatMessage["role"];
+  text: string;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+const MAX_MATCHES_PER_CHAT = 3;
+
+export class ChatSearchIndex {
+  private readonly postings = new Map<string, Set<string>>();
+  private readonly chatTokens = new Map<string, { updatedAt: number; tokens: Set<string> }>();
+
+  public indexedAt(chatId: string): number | undefined {
+    return this.chatTokens.get(chatId)?.updatedAt;
+  }
+
+  public indexedChatIds(): string[] {
+    return [...this.chatTokens.keys()];
+  }
+
+  public update(chat: ChatData): void {
+    this.remove(chat.id);
+    const tokens = new Set<string>();
+    for (const entry of searchableText(chat)) {
+      for (const token of tokenize(entry.text)) {
+        tokens.add(token);
+      }
+    }
+
+    for (const token of tokens) {
+      let chats = this.postings.get(token);
+      if (!chats) {
+        chats = new Set();
+        this.postings.set(token, chats);
+      }
+      chats.add(chat.id);
+    }
+    this.chatTokens.set(chat.id, { updatedAt: chat.updatedAt, tokens });
+  }
+
+  public remove(chatId: string): void {
+    const indexed = this.chatTokens.get(chatId);
+    if (!indexed) {
+      return;
+    }
+
+    for (const token of indexed.tokens) {
+      const chats = this.postings.get(token);
+      chats?.delete(chatId);
+      if (chats && !chats.size) {
+        this.postings.delete(token);
+      }
+    }
+    this.chatTokens.delete(chatId);
+  }
+
+  public clear(): void {
+    this.postings.clear();
+    this.chatTokens.clear();
+  }
+
+  public candidates(query: string): Set<string> {
+    const terms = uniqueTerms(query);
+    let result: Set<string> | undefined;
+    for (const term of terms) {
+      const matching = new Set<string>();
+      for (const [token, chats] of this.postings) {
+        if (token.startsWith(term)) {
+          chats.forEach((chatId) => {
+            if (!result || result.has(chatId)) {
+              matching.add(chatId);
+            }
+          });
+        }
+      }
+      result = matching;
+      if (!result.size) {
+        break;
+      }
+    }
+    return result ?? new Set();
+  }
+}
+
+export function buildSearchResult(chat: ChatData, query: string): SearchResult | null {
+  const terms = uniqueTerms(query);
+  if (!terms.length) {
+    return null;
+  }
+
+  const matches: SearchMatch[] = [];
+  for (const entry of searchableText(chat)) {
+    const match = matchText(entry, terms);
+    if (match) {
+      matches.push(match);
+    }
+    if (matches.length >= MAX_MATCHES_PER_CHAT) {
+      break;
+    }
+  }
+
+  if (!matches.length) {
+    return null;
+  }
+  return {
+    chatId: chat.id,
+    title: chat.customTitle || chat.title,
+    updatedAt: chat.updatedAt,
+    workspaceName: chat.workspaceName,
+    matches
+  };
+}
+
+function searchableText(chat: ChatData): SearchText[] {
+  const entries: SearchText[] = [{ field: "title", text: [chat.customTitle, chat.title, ...(chat.tags ?? [])].filter(Boolean).join("  ") }];
+  chat.messages.forEach((message, messageIndex) => {
+    if (message.content) {
+      entries.push({ field: "message", messageIndex, role: message.role, text: message.content });
+    }
+    for (const activity of message.activity ?? []) {
+      if (activity.type === "tool" && activity.locations.length) {
+        entries.push({ field: "location", messageIndex, role: message.role, text: activity.locations.join("  ") });
+      }
+    }
+  });
+  return entries;
+}
+
+function matchText(entry: SearchText, terms: string[]): SearchMatch | null {
+  const lower = entry.text.toLowerCase();
+  const positions = terms
+    .map((term) => ({ term, index: lower.indexOf(term) }))
+    .filter((position) => position.index >= 0);
+  if (!positions.length) {
+    return null;
+  }
+
+  const first = Math.min(...positions.map((position) => position.index));
+  const start = Math.max(0, first - SNIPPET_BEFORE);
+  const end = Math.min(entry.text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? "…" : "";
+  const window = entry.text.slice(start, end).replace(/\s+/g, " ");
+  const snippet = `${prefix}${window}${end < entry.text.length ? "…" : ""}`;
+
+  const highlights: Array<[number, number]> = [];
+  const lowerSnippet = snippet.toLowerCase();
+  for (const { term } of positions) {
+    for (let index = lowerSnippet.indexOf(term); index >= 0; index = lowerSnippet.indexOf(term, index + term.length)) {
+      highlights.push([index, index + term.length]);
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0]);
+
+  return {
+    field: entry.field,
+    role: entry.role,
+    messageIndex: entry.messageIndex,
+    snippet,
+    highlights: mergeRanges(highlights)
+  };
+}
+
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+function uniqueTerms(query: string): string[] {
+  return [...new Set(tokenize(query))];
+}
@@ -0,0 +1,218 @@
+import { execFile } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import * as vscode from "vscode";
+import type { FileChangeObserver } from "../acp/AcpClient";
+import { computeLineDiff } from "../shared/diff";
+import type { CheckpointFile, CheckpointSummary, TurnCheckpoint } from "./SessionStorage";
+
+interface GitBaseline {
+  root: string;
+  ref: string | null;
+  untracked: Set<string>;
+}
+
+const execFileAsync = promisify(execFile);
+
+const MAX_SNAPSHOT_BYTES = 1024 * 1024;
+const MAX_WATCHED_FILES = 200;
+const GIT_TIMEOUT_MS = 10_000;
+const WATCH_SETTLE_MS = 300;
+const IGNORED_PATH = /[\\/](\.git|node_modules)([\\/]|$)/;
+
+export class CheckpointRecorder implements FileChangeObserver {
+  private readonly files = new Map<string, CheckpointFile>();
+  private readonly baselines = new Map<string, Promise<GitBaseline | null>>();
+  private readonly changed = new Set<string>();
+  private watcher: vscode.FileSystemWatcher | null = null;
+  private active = false;
+
+  public begin(): void {
+    this.cancel();
+    this.active = true;
+  }
+
+  public cancel(): void {
+    this.active = false;
+    this.watcher?.dispose();
+    this.watcher = null;
+    this.files.clear();
+    this.baselines.clear();
+    this.changed.clear();
+  }
+
+  public async beforeWrite(filePath: string): Promise<void> {
+    const key = path.resolve(filePath);
+    if (!this.active || this.files.has(key)) {
+      return;
+    }
+
+    const before = await readFileSnapshot(key);
+    this.files.set(key, { path: key, before: before ?? null, after: null, restorable: before !== undefined });
+  }
+
+  public async beforeCommand(cwd: string): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+
+    this.watchWorkspace();
+    const root = await gitOutput(cwd, ["rev-parse", "--show-toplevel"]).then((output) => output?.trim());
+    if (!root || this.baselines.has(root)) {
+      return;
+    }
+    this.baselines.set(root, captureBaseline(root));
+    await this.baselines.get(root);
+  }
+
+  public async finish(): Promise<TurnCheckpoint | null> {
+    if (!this.active) {
+      return null;
+    }
+    this.active = false;
+
+    if (this.watcher) {
+      await new Promise((resolve) => setTimeout(resolve, WATCH_SETTLE_MS));
+      this.watcher.dispose();
+      this.watcher = null;
+    }
+
+    try {
+      for (const filePath of [...this.changed].slice(0, MAX_WATCHED_FILES)) {
+        if (!this.files.has(filePath)) {
+          const file = await this.fromBaseline(filePath);
+          if (file) {
+            this.files.set(filePath, file);
+          }
+        }
+      }
+
+      const files: CheckpointFile[] = [];
+      for (const file of this.files.values()) {
+        const after = await readFileSnapshot(file.path);
+        if (after === file.before) {
+          continue;
+        }
+        files.push({ ...file, after: after ?? null, restorable: file.restorable && after !== undefined });
+      }
+
+      return files.length
+        ? { id: `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`, createdAt: Date.now(), files }
+        : null;
+    } finally {
+      this.cancel();
+    }
+  }
+
+  private watchWorkspace(): void {
+    if (this.watcher || !vscode.workspace.workspaceFolders?.length) {
+      return;
+    }
+
+    const record = (uri: vscode.Uri) => {
+      if (uri.scheme === "file" && !IGNORED_PATH.test(uri.fsPath)) {
+        this.changed.add(path.resolve(uri.fsPath));
+      }
+    };
+    this.watcher = vscode.workspace.createFileSystemWatcher("**/*");
+    this.watcher.onDidChange(record);
+    this.watcher.onDidCreate(record);
+    this.watcher.onDidDelete(record);
+  }
+
+  private async fromBaseline(filePath: string): Promise<CheckpointFile | null> {
+    const baseline = await this.baselineFor(filePath);
+    if (!baseline) {
+      return null;
+    }
+
+    const relative = path.relative(baseline.root, filePath).split(path.sep).join("/");
+    if (await gitOutput(baseline.root, ["check-ignore", "-q", "--", relative]) !== null) {
+      return null;
+    }
+    if (baseline.untracked.has(relative)) {
+      return { path: filePath, before: null, after: null, restorable: false };
+    }
+    if (!baseline.ref) {
+      return { path: filePath, before: null, after: null, restorable: true };
+    }
+
+    const before = await gitOutput(baseline.root, ["show", `${baseline.ref}:${relative}`]);
+    if (before !== null && (before.length > MAX_SNAPSHOT_BYTES || before.includes("\0"))) {
+      return { path: filePath, before: null, after: null, restorable: false };
+    }
+    return { path: filePath, before, after: null, restorable: true };
+  }
+
+  private async baselineFor(filePath: string): Promise<GitBaseline | null> {
+    for (const [root, baseline] of this.baselines) {
+      const relative = path.relative(root, filePath);
+      if (relative && relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)) {
+        return baseline;
+      }
+    }
+    return null;
+  }
+}
+
+export function summarizeCheckpoint(checkpoint: TurnCheckpoint): CheckpointSummary {
+  return {
+    id: checkpoint.id,
+    files: checkpoint.files.map((file) => {
+      const diff = computeLineDiff(file.before, file.after ?? "");
+      return {
+        path: file.path,
+        change: file.before === null && file.restorable ? "created" : file.after === null && file.restorable ? "deleted" : "modified",
+        added: file.after === null ? 0 : diff.added,
+        removed: diff.removed,
+        restorable: file.restorable
+      };
+    })
+  };
+}
+
+async function captureBaseline(root: string): Promise<GitBaseline | null> {
+  const stash = (await gitOutput(root, ["stash", "create"]))?.trim();
+  const head = await gitOutput(root, ["rev-parse", "--verify", "-q", "HEAD"]);
+  const untracked = await gitOutput(root, ["ls-files", "--others", "--exclude-standard", "-z"]);
+  if (untracked === null) {
+    return null;
+  }
+  return {
+    root,
+    ref: stash || (head !== null ? "HEAD" : null),
+    untracked: new Set(untracked.split("\0").filter(Boolean))
+  };
+}
+
+async function gitOutput(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: MAX_SNAPSHOT_BYTES * 16
+    });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+export async function readFileSnapshot(filePath: string): Promise<string | null | undefined> {
+  const open = vscode.workspace.textDocuments.find((document) => document.uri.scheme === "file" && document.uri.fsPath === filePath);
+  if (open) {
+    return open.getText();
+  }
+
+  try {
+    const stat = await fs.promises.stat(filePath);
+    if (!stat.isFile() || stat.size > MAX_SNAPSHOT_BYTES) {
+      return undefined;
+    }
+    const bytes = await fs.promises.readFile(filePath);
+    return bytes.includes(0) ? undefined : bytes.toString("utf8");
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ENOENT" ? null : undefined;
+  }
+}
@@ -0,0 +1,30 @@
+import type { ChatMessage } from "./SessionStorage";
+
+export function versionCount(message: ChatMessage): number {
+  return (message.versions?.length ?? 0) + 1;
+}
+
+export function versionsAt(messages: ChatMessage[], index: number): ChatMessage[][] {
+  const [first, ...rest] = messages.slice(index);
+  if (!first) {
+    return [];
+  }
+
+  const { versions = [], versionIndex, ...message } = first;
+  const active = Math.min(versionIndex ?? versions.length, versions.length);
+  return [...versions.slice(0, active), [message, ...rest], ...versions.slice(active)];
+}
+
+export function selectVersion(messages: ChatMessage[], index: number, version: number): ChatMessage[] {
+  const all = versionsAt(messages, index);
+  const [first, ...rest] = all[version] ?? [];
+  if (!first) {
+    return messages;
+  }
+  return [...messages.slice(0, index), withVersions(first, all.filter((_, position) => position !== version), version), ...rest];
+}
+
+export function withVersions(message: ChatMessage, versions: ChatMessage[][], versionIndex: number): ChatMessage {
+  const { versions: _versions, versionIndex: _versionIndex, ...rest } = message;
+  return versions.length ? { ...rest, versions, versionIndex } : rest;
+}
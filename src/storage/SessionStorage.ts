@@ -1,7 +1,10 @@
 import * as vscode from "vscode";
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { sanitizeChatData } from "./ChatSanitizer";
+import { ChatSearchIndex, buildSearchResult, type SearchResult } from "./ChatSearchIndex";
 
 export interface ChatMetadata {
   id: string;
@@ -9,137 +12,735 @@ export interface ChatMetadata {
   createdAt: number;
   updatedAt: number;
   sessionId?: string;
+  workspaceKey?: string;
+  workspaceName?: string;
+  customTitle?: string;
+  pinned?: boolean;
+  tags?: string[];
+  archived?: boolean;
+  parentChatId?: string;
+  forkedFromMessage?: number;
+}
+
+export type ChatOrganization = Pick<ChatMetadata, "customTitle" | "pinned" | "tags" | "archived">;
+
+export type HistoryScope = "workspace" | "all";
+
+export interface WorkspaceInfo {
+  key: string;
+  name: string;
+}
+
+export const CHAT_SCHEMA_VERSION = 2;
+export const INDEX_SCHEMA_VERSION = 2;
+
+const INDEX_FILE = "chats.json";
+const TRASH_DIR = "trash";
+const CHECKPOINT_DIR = "checkpoints";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOCK_FILE = "chats.lock";
+const LOCK_STALE_MS = 10_000;
+const LOCK_HEARTBEAT_MS = 2_000;
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5_000;
+const WATCH_DEBOUNCE_MS = 150;
+const MAX_SEARCH_RESULTS = 50;
+
+export interface StoredPlanEntry {
+  content: string;
+  priority: string;
+  status: string;
+}
+
+export interface StoredTerminalSnapshot {
+  terminalId: string;
+  output: string;
+  truncated: boolean;
+  exitCode: number | null;
+  signal: string | null;
+  running: boolean;
+}
+
+export type StoredToolContent =
+  | { type: "text"; text: string }
+  | { type: "terminal"; terminalId: string; snapshot: StoredTerminalSnapshot | null }
+  | { type: "diff"; path: string; oldText: string | null; newText: string };
+
+export type StoredActivity =
+  | { type: "thought"; text: string; elapsedSeconds: number }
+  | {
+    type: "tool";
+    toolCallId: string;
+    title: string;
+    kind: string;
+    status: string;
+    locations: string[];
+    content: StoredToolContent[];
+  }
+  | { type: "notice"; message: string };
+
+export interface StoredUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  thoughtTokens?: number | null;
+  cachedReadTokens?: number | null;
+  cachedWriteTokens?: number | null;
+}
+
+export type CheckpointChange = "created" | "modified" | "deleted";
+
+export interface CheckpointFile {
+  path: string;
+  before: string | null;
+  after: string | null;
+  restorable: boolean;
+}
+
+export interface TurnCheckpoint {
+  id: string;
+  createdAt: number;
+  files: CheckpointFile[];
+}
+
+export interface CheckpointSummary {
+  id: string;
+  files: Array<{ path: string; change: CheckpointChange; added: number; removed: number; restorable: boolean }>;
+  revertedAt?: number;
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant" | "error";
+  content: string;
+  timestamp: number;
+  interrupted?: boolean;
+  attachments?: Array<{ kind: "image" | "file" | "mention"; name: string }>;
+  plan?: StoredPlanEntry[];
+  activity?: StoredActivity[];
+  stopReason?: string;
+  usage?: StoredUsage;
+  checkpoint?: CheckpointSummary;
+  // Other conversations that branched at this user message, each starting with its own copy of it.
+  versions?: ChatMessage[][];
+  versionIndex?: number;
 }
 
 export interface ChatData extends ChatMetadata {
-  messages: Array<{
-    role: "user" | "assistant";
-    content: string;
-    timestamp: number;
-  }>;
+  schemaVersion: number;
+  messages: ChatMessage[];
+}
+
+export type ChatInput = Omit<ChatData, "schemaVersion">;
+
+export type TrashReason = "deleted" | "cleared";
+
+export interface TrashEntry {
+  trashId: string;
+  batchId: string;
+  trashedAt: number;
+  reason: TrashReason;
+  chat: ChatMetadata;
+  messageCount: number;
+}
+
+interface TrashFile {
+  trashId: string;
+  batchId: string;
+  trashedAt: number;
+  reason: TrashReason;
+  chat: ChatData;
 }
 
-export class SessionStorage {
+export class SessionStorage implements vscode.Disposable {
   private readonly chatDir: string;
   private readonly chatsFile: string;
+  private readonly lockFile: string;
+  private readonly trashDir: string;
+  private readonly checkpointDir: string;
+  private readonly ready: Promise<void>;
+  private readonly watcher: vscode.FileSystemWatcher;
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  private readonly searchIndex = new ChatSearchIndex();
+  private watchTimer: NodeJS.Timeout | null = null;
   private cache: ChatMetadata[] = [];
 
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+
   constructor() {
     const homeDir = os.homedir();
     this.chatDir = path.join(homeDir, ".opencode-acp-chat");
-    this.chatsFile = path.join(this.chatDir, "chats.json");
-    this.ensureDirectories();
+    this.chatsFile = path.join(this.chatDir, INDEX_FILE);
+    this.lockFile = path.join(this.chatDir, LOCK_FILE);
+    this.trashDir = path.join(this.chatDir, TRASH_DIR);
+    this.checkpointDir = path.join(this.chatDir, CHECKPOINT_DIR);
+    this.ready = this.initialize();
+
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(this.chatDir), "*.json")
+    );
+    const scheduleChange = () => this.scheduleChange();
+    this.watcher.onDidChange(scheduleChange);
+    this.watcher.onDidCreate(scheduleChange);
+    this.watcher.onDidDelete(scheduleChange);
+  }
+
+  private async initialize(): Promise<void> {
+    await fs.promises.mkdir(this.trashDir, { recursive: true });
+    await fs.promises.mkdir(this.checkpointDir, { recursive: true });
+    await this.migrateChatFiles();
+    await this.purgeTrash();
   }
 
-  private ensureDirectories(): void {
-    if (!fs.existsSync(this.chatDir)) {
-      fs.mkdirSync(this.chatDir, { recursive: true });
+  private scheduleChange(): void {
+    if (this.watchTimer) {
+      clearTimeout(this.watchTimer);
     }
+    this.watchTimer = setTimeout(() => {
+      this.watchTimer = null;
+      this.onDidChangeEmitter.fire();
+    }, WATCH_DEBOUNCE_MS);
   }
 
-  async loadChatMetadata(): Promise<ChatMetadata[]> {
+  async loadChatMetadata(scope: HistoryScope = "all"): Promise<ChatMetadata[]> {
+    await this.ready;
     try {
-      if (fs.existsSync(this.chatsFile)) {
-        const content = fs.readFileSync(this.chatsFile, "utf-8");
-        this.cache = JSON.parse(content);
-      }
+      this.cache = await this.readIndex();
     } catch (error) {
       console.error("Failed to load chat metadata:", error);
-      this.cache = [];
     }
-    return this.cache.sort((a, b) => b.updatedAt - a.updatedAt);
+    const workspace = currentWorkspace();
+    return this.cache
+      .filter((chat) => scope === "all" || !workspace || !chat.workspaceKey || chat.workspaceKey === workspace.key)
+      .sort((a, b) => Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) || b.updatedAt - a.updatedAt);
   }
 
-  async saveChat(chat: ChatData): Promise<void> {
-    const chatFile = path.join(this.chatDir, `${chat.id}.json`);
-    fs.writeFileSync(chatFile, JSON.stringify(chat, null, 2), "utf-8");
+  async saveChat(input: ChatInput): Promise<void> {
+    await this.ready;
+    await this.updateIndex(async (chats) => {
+      const existing = chats.find((entry) => entry.id === input.id);
+      const chat: ChatData = { schemaVersion: CHAT_SCHEMA_VERSION, ...organizationOf(existing), ...forkOf(existing), ...input };
+      await writeJsonAtomic(this.chatFile(chat.id), chat);
+      this.searchIndex.update(chat);
+      return [...chats.filter((entry) => entry.id !== chat.id), toMetadata(chat)];
+    });
+  }
 
-    const existingIndex = this.cache.findIndex(c => c.id === chat.id);
-    const metadata: ChatMetadata = {
-      id: chat.id,
-      title: chat.title,
-      createdAt: chat.createdAt,
-      updatedAt: chat.updatedAt,
-      sessionId: chat.sessionId
+  async importChat(chat: ChatData): Promise<ChatMetadata> {
+    await this.ready;
+    const existing = await this.readIndex();
+    const workspace = currentWorkspace();
+    const { schemaVersion: _schemaVersion, sessionId: _sessionId, ...rest } = chat;
+    const imported: ChatInput = {
+      ...rest,
+      messages: rest.messages.map(({ checkpoint: _checkpoint, ...message }) => message),
+      ...(existing.some((entry) => entry.id === rest.parentChatId) ? {} : { parentChatId: undefined, forkedFromMessage: undefined }),
+      id: /^[\w-]+$/.test(chat.id) && !existing.some((entry) => entry.id === chat.id) ? chat.id : this.generateId(),
+      workspaceKey: workspace?.key,
+      workspaceName: workspace?.name
     };
+    await this.saveChat(imported);
+    return toMetadata({ schemaVersion: CHAT_SCHEMA_VERSION, ...imported });
+  }
 
-    if (existingIndex >= 0) {
-      this.cache[existingIndex] = metadata;
-    } else {
-      this.cache.push(metadata);
+  async forkChat(parentChatId: string, messageIndex: number): Promise<ChatData | null> {
+    await this.ready;
+    const parent = await this.loadChat(parentChatId);
+    if (!parent || messageIndex < 0 || messageIndex >= parent.messages.length) {
+      return null;
     }
 
-    await this.saveMetadata();
+    const now = Date.now();
+    const workspace = currentWorkspace();
+    const fork: ChatInput = {
+      id: this.generateId(),
+      title: `${parent.customTitle || parent.title} (fork)`,
+      createdAt: now,
+      updatedAt: now,
+      workspaceKey: parent.workspaceKey ?? workspace?.key,
+      workspaceName: parent.workspaceName ?? workspace?.name,
+      ...(parent.tags?.length ? { tags: [...parent.tags] } : {}),
+      parentChatId: parent.id,
+      forkedFromMessage: messageIndex,
+      messages: parent.messages.slice(0, messageIndex + 1)
+    };
+    await fs.promises.cp(this.chatCheckpointDir(parent.id), this.chatCheckpointDir(fork.id), { recursive: true })
+      .catch(() => undefined);
+    await this.saveChat(fork);
+    return { schemaVersion: CHAT_SCHEMA_VERSION, ...fork };
+  }
+
+  async updateChatOrganization(id: string, patch: ChatOrganization): Promise<ChatMetadata | null> {
+    await this.ready;
+    let updated: ChatMetadata | null = null;
+    await this.updateIndex(async (chats) => {
+      const chat = await this.loadChat(id);
+      if (!chat) {
+        return chats;
+      }
+      const next: ChatData = { ...chat, ...patch };
+      await writeJsonAtomic(this.chatFile(id), next);
+      this.searchIndex.update(next);
+      updated = toMetadata(next);
+      return chats.map((entry) => entry.id === id ? updated as ChatMetadata : entry);
+    });
+    return updated;
   }
 
-  async createChat(sessionId?: string): Promise<{ id: string; title: string; createdAt: number }> {
+  async createChat(sessionId?: string): Promise<{ id: string; title: string; createdAt: number; workspace?: WorkspaceInfo }> {
     const now = Date.now();
     const id = this.generateId();
     const title = `Chat ${new Date().toLocaleDateString()}`;
-    const chat: ChatData = {
+    const workspace = currentWorkspace();
+    const chat: ChatInput = {
       id,
       title,
       createdAt: now,
       updatedAt: now,
       sessionId,
+      workspaceKey: workspace?.key,
+      workspaceName: workspace?.name,
       messages: []
     };
 
     await this.saveChat(chat);
-    return { id, title, createdAt: chat.createdAt };
+    return { id, title, createdAt: chat.createdAt, workspace };
+  }
+
+  async assignWorkspaces(cwdForChat: (chat: ChatMetadata) => string | undefined): Promise<number> {
+    await this.ready;
+    let assigned = 0;
+    await this.updateIndex(async (chats) => {
+      const next: ChatMetadata[] = [];
+      for (const entry of chats) {
+        const cwd = entry.workspaceKey ? undefined : cwdForChat(entry);
+        if (!cwd) {
+          next.push(entry);
+          continue;
+        }
+
+        const workspace = workspaceForPath(cwd);
+        try {
+          const chat = await this.loadChat(entry.id);
+          if (chat) {
+            await writeJsonAtomic(this.chatFile(chat.id), { ...chat, workspaceKey: workspace.key, workspaceName: workspace.name });
+          }
+          next.push({ ...entry, workspaceKey: workspace.key, workspaceName: workspace.name });
+          assigned += 1;
+        } catch (error) {
+          console.error(`Failed to assign workspace to chat ${entry.id}:`, error);
+          next.push(entry);
+        }
+      }
+      return next;
+    });
+    return assigned;
   }
 
   async loadChat(id: string): Promise<ChatData | null> {
+    await this.ready;
     try {
-      const chatFile = path.join(this.chatDir, `${id}.json`);
-      if (fs.existsSync(chatFile)) {
-        const content = fs.readFileSync(chatFile, "utf-8");
-        return JSON.parse(content);
-      }
+      const content = await fs.promises.readFile(this.chatFile(id), "utf-8");
+      return migrateChatData(JSON.parse(content))?.chat ?? null;
     } catch (error) {
-      console.error("Failed to load chat:", error);
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Failed to load chat:", error);
+      }
     }
     return null;
   }
 
-  async deleteChat(id: string): Promise<void> {
+  async deleteChat(id: string): Promise<string[]> {
+    await this.ready;
     try {
-      const chatFile = path.join(this.chatDir, `${id}.json`);
-      if (fs.existsSync(chatFile)) {
-        fs.unlinkSync(chatFile);
-      }
-      this.cache = this.cache.filter(c => c.id !== id);
-      await this.saveMetadata();
+      const trashIds: string[] = [];
+      await this.updateIndex(async (chats) => {
+        const chat = await this.loadChat(id);
+        if (chat) {
+          trashIds.push(await this.moveToTrash(chat, "deleted", this.generateId()));
+        }
+        await fs.promises.rm(this.chatFile(id), { force: true });
+        this.searchIndex.remove(id);
+        return chats.filter((entry) => entry.id !== id);
+      });
+      return trashIds;
     } catch (error) {
       console.error("Failed to delete chat:", error);
+      return [];
     }
   }
 
-  async clearAllChats(): Promise<void> {
+  async clearAllChats(scope: HistoryScope = "all"): Promise<string[]> {
+    await this.ready;
+    const workspace = currentWorkspace();
+    const batchId = this.generateId();
+    const trashIds: string[] = [];
+    const trashChat = async (id: string) => {
+      const chat = await this.loadChat(id);
+      if (chat) {
+        trashIds.push(await this.moveToTrash(chat, "deleted", batchId));
+      }
+      await fs.promises.rm(this.chatFile(id), { force: true });
+      this.searchIndex.remove(id);
+    };
+
     try {
-      const files = fs.readdirSync(this.chatDir);
-      for (const file of files) {
-        if (!file.endsWith(".json") || file === "chats.json") {
-          continue;
+      await this.updateIndex(async (chats) => {
+        if (scope === "all" || !workspace) {
+          for (const file of await this.listChatFiles()) {
+            await trashChat(path.basename(file, ".json"));
+          }
+          return [];
         }
-        const filePath = path.join(this.chatDir, file);
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
+
+        const kept: ChatMetadata[] = [];
+        for (const entry of chats) {
+          if (entry.workspaceKey && entry.workspaceKey !== workspace.key) {
+            kept.push(entry);
+          } else {
+            await trashChat(entry.id);
+          }
         }
+        return kept;
+      });
+    } catch (error) {
+      console.error("Failed to clear chats:", error);
+    }
+    return trashIds;
+  }
+
+  async trashSnapshot(chat: ChatData): Promise<string[]> {
+    await this.ready;
+    return [await this.moveToTrash(chat, "cleared", this.generateId())];
+  }
+
+  async listTrash(): Promise<TrashEntry[]> {
+    await this.ready;
+    await this.purgeTrash();
+    const entries: TrashEntry[] = [];
+    for (const trash of await this.readTrashFiles()) {
+      entries.push({
+        trashId: trash.trashId,
+        batchId: trash.batchId,
+        trashedAt: trash.trashedAt,
+        reason: trash.reason,
+        chat: toMetadata(trash.chat),
+        messageCount: trash.chat.messages.length
+      });
+    }
+    return entries.sort((a, b) => b.trashedAt - a.trashedAt);
+  }
+
+  async restoreFromTrash(trashIds: string[]): Promise<ChatMetadata[]> {
+    await this.ready;
+    const restored: ChatMetadata[] = [];
+    for (const trashId of trashIds) {
+      const trash = await this.readTrashFile(this.trashFile(trashId));
+      if (!trash) {
+        continue;
+      }
+
+      const current = await this.loadChat(trash.chat.id);
+      const { schemaVersion: _schemaVersion, ...chat } = trash.chat;
+      const input: ChatInput = current?.messages.length
+        ? { ...chat, id: this.generateId(), title: `${chat.title} (restored)`, sessionId: undefined }
+        : chat;
+      if (input.id !== chat.id) {
+        await fs.promises.cp(this.chatCheckpointDir(chat.id), this.chatCheckpointDir(input.id), { recursive: true })
+          .catch(() => undefined);
       }
+      await this.saveChat(input);
+      await fs.promises.rm(this.trashFile(trashId), { force: true });
+      restored.push(toMetadata({ schemaVersion: CHAT_SCHEMA_VERSION, ...input }));
+    }
+    return restored;
+  }
 
-      this.cache = [];
-      await this.saveMetadata();
+  async emptyTrash(trashIds?: string[]): Promise<void> {
+    await this.ready;
+    const ids = trashIds ?? (await this.readTrashFiles()).map((trash) => trash.trashId);
+    const chatIds: string[] = [];
+    for (const trashId of ids) {
+      const trash = await this.readTrashFile(this.trashFile(trashId));
+      if (trash) {
+        chatIds.push(trash.chat.id);
+      }
+      await fs.promises.rm(this.trashFile(trashId), { force: true });
+    }
+    await this.discardCheckpoints(chatIds);
+  }
+
+  async saveCheckpoint(chatId: string, checkpoint: TurnCheckpoint): Promise<void> {
+    await this.ready;
+    const dir = this.chatCheckpointDir(chatId);
+    await fs.promises.mkdir(dir, { recursive: true });
+    await writeJsonAtomic(path.join(dir, `${path.basename(checkpoint.id)}.json`), checkpoint);
+  }
+
+  async loadCheckpoint(chatId: string, checkpointId: string): Promise<TurnCheckpoint | null> {
+    await this.ready;
+    try {
+      const content = await fs.promises.readFile(path.join(this.chatCheckpointDir(chatId), `${path.basename(checkpointId)}.json`), "utf-8");
+      const checkpoint = JSON.parse(content) as Partial<TurnCheckpoint>;
+      return typeof checkpoint.id === "string" && Array.isArray(checkpoint.files) ? checkpoint as TurnCheckpoint : null;
     } catch (error) {
-      console.error("Failed to clear chats:", error);
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Failed to load checkpoint:", error);
+      }
+      return null;
+    }
+  }
+
+  private chatCheckpointDir(chatId: string): string {
+    return path.join(this.checkpointDir, path.basename(chatId));
+  }
+
+  private async discardCheckpoints(chatIds: string[]): Promise<void> {
+    if (!chatIds.length) {
+      return;
+    }
+
+    const trashed = new Set((await this.readTrashFiles()).map((trash) => trash.chat.id));
+    for (const chatId of new Set(chatIds)) {
+      const live = await fs.promises.stat(this.chatFile(chatId)).then(() => true, () => false);
+      if (!live && !trashed.has(chatId)) {
+        await fs.promises.rm(this.chatCheckpointDir(chatId), { recursive: true, force: true });
+      }
+    }
+  }
+
+  private async moveToTrash(chat: ChatData, reason: TrashReason, batchId: string): Promise<string> {
+    const trashedAt = Date.now();
+    const trashId = `${chat.id}-${this.generateId()}`;
+    const trash: TrashFile = { trashId, batchId, trashedAt, reason, chat };
+    await writeJsonAtomic(this.trashFile(trashId), { schemaVersion: CHAT_SCHEMA_VERSION, ...trash });
+    return trashId;
+  }
+
+  private async purgeTrash(): Promise<void> {
+    const retentionDays = vscode.workspace.getConfiguration("opencodeAcp").get<number>("trashRetentionDays", 30);
+    if (!retentionDays || retentionDays <= 0) {
+      return;
+    }
+
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    try {
+      const purged: string[] = [];
+      for (const trash of await this.readTrashFiles()) {
+        if (trash.trashedAt < cutoff) {
+          await fs.promises.rm(this.trashFile(trash.trashId), { force: true });
+          purged.push(trash.chat.id);
+        }
+      }
+      await this.discardCheckpoints(purged);
+    } catch (error) {
+      console.error("Failed to purge chat trash:", error);
+    }
+  }
+
+  private trashFile(trashId: string): string {
+    return path.join(this.trashDir, `${path.basename(trashId)}.json`);
+  }
+
+  private async readTrashFiles(): Promise<TrashFile[]> {
+    const files = (await fs.promises.readdir(this.trashDir).catch(() => [] as string[]))
+      .filter((file) => file.endsWith(".json"));
+    const entries: TrashFile[] = [];
+    for (const file of files) {
+      const trash = await this.readTrashFile(path.join(this.trashDir, file));
+      if (trash) {
+        entries.push(trash);
+      }
+    }
+    return entries;
+  }
+
+  private async readTrashFile(filePath: string): Promise<TrashFile | null> {
+    try {
+      const raw = JSON.parse(await fs.promises.readFile(filePath, "utf-8")) as Partial<TrashFile>;
+      const chat = migrateChatData(raw.chat)?.chat;
+      if (!chat || typeof raw.trashId !== "string" || typeof raw.trashedAt !== "number") {
+        return null;
+      }
+      return {
+        trashId: raw.trashId,
+        batchId: typeof raw.batchId === "string" ? raw.batchId : raw.trashId,
+        trashedAt: raw.trashedAt,
+        reason: raw.reason === "cleared" ? "cleared" : "deleted",
+        chat
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Skipping unreadable trash file ${filePath}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async searchChats(query: string, scope: HistoryScope = "all"): Promise<SearchResult[]> {
+    const chats = await this.loadChatMetadata(scope);
+    await this.syncSearchIndex();
+
+    const candidates = this.searchIndex.candidates(query);
+    const results: SearchResult[] = [];
+    for (const metadata of chats) {
+      if (!candidates.has(metadata.id)) {
+        continue;
+      }
+      const chat = await this.loadChat(metadata.id);
+      const result = chat ? buildSearchResult(chat, query) : null;
+      if (result) {
+        results.push(result);
+      }
+      if (results.length >= MAX_SEARCH_RESULTS) {
+        break;
+      }
+    }
+    return results;
+  }
+
+  private async syncSearchIndex(): Promise<void> {
+    const known = new Set(this.cache.map((chat) => chat.id));
+    for (const chatId of this.searchIndex.indexedChatIds()) {
+      if (!known.has(chatId)) {
+        this.searchIndex.remove(chatId);
+      }
+    }
+
+    for (const metadata of this.cache) {
+      if (this.searchIndex.indexedAt(metadata.id) === metadata.updatedAt) {
+        continue;
+      }
+      const chat = await this.loadChat(metadata.id);
+      if (chat) {
+        this.searchIndex.update(chat);
+      }
+    }
+  }
+
+  private chatFile(id: string): string {
+    return path.join(this.chatDir, `${id}.json`);
+  }
+
+  private async listChatFiles(): Promise<string[]> {
+    const files = await fs.promises.readdir(this.chatDir);
+    return files.filter((file) => file.endsWith(".json") && file !== INDEX_FILE);
+  }
+
+  private async updateIndex(
+    update: (chats: ChatMetadata[]) => ChatMetadata[] | Promise<ChatMetadata[]>
+  ): Promise<void> {
+    await this.withLock(async () => {
+      const next = await update(await this.readIndex());
+      await writeJsonAtomic(this.chatsFile, { schemaVersion: INDEX_SCHEMA_VERSION, chats: next });
+      this.cache = next;
+    });
+  }
+
+  private async readIndex(): Promise<ChatMetadata[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.chatsFile, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    try {
+      return migrateIndexData(JSON.parse(content));
+    } catch (error) {
+      console.error("Chat index is corrupted, rebuilding from chat files:", error);
+      return this.recoverIndex();
+    }
+  }
+
+  private async recoverIndex(): Promise<ChatMetadata[]> {
+    const chats: ChatMetadata[] = [];
+    for (const file of await this.listChatFiles()) {
+      try {
+        const content = await fs.promises.readFile(path.join(this.chatDir, file), "utf-8");
+        const chat = migrateChatData(JSON.parse(content))?.chat;
+        if (chat) {
+          chats.push(toMetadata(chat));
+        }
+      } catch (error) {
+        console.error(`Skipping unreadable chat file ${file}:`, error);
+      }
+    }
+
+    await fs.promises.copyFile(this.chatsFile, `${this.chatsFile}.corrupt-${Date.now()}`).catch(() => undefined);
+    await writeJsonAtomic(this.chatsFile, { schemaVersion: INDEX_SCHEMA_VERSION, chats });
+    return chats;
+  }
+
+  private async withLock<T>(task: () => Promise<T>): Promise<T> {
+    const token = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+    const startedAt = Date.now();
+    for (;;) {
+      try {
+        const handle = await fs.promises.open(this.lockFile, "wx");
+        await handle.writeFile(token);
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+        const owner = await fs.promises.readFile(this.lockFile, "utf8").catch(() => null);
+        const stat = await fs.promises.stat(this.lockFile).catch(() => null);
+        if (owner !== null && stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+          await this.breakStaleLock(owner, token);
+          continue;
+        }
+        if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+          throw new Error("Timed out waiting for the chat index lock");
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      void fs.promises.utimes(this.lockFile, now, now).catch(() => undefined);
+    }, LOCK_HEARTBEAT_MS);
+    try {
+      return await task();
+    } finally {
+      clearInterval(heartbeat);
+      const owner = await fs.promises.readFile(this.lockFile, "utf8").catch(() => null);
+      if (owner === token) {
+        await fs.promises.rm(this.lockFile, { force: true });
+      }
+    }
+  }
+
+  private async breakStaleLock(staleOwner: string, token: string): Promise<void> {
+    const claimed = `${this.lockFile}.${token}`;
+    try {
+      await fs.promises.rename(this.lockFile, claimed);
+    } catch {
+      return;
+    }
+
+    const owner = await fs.promises.readFile(claimed, "utf8").catch(() => null);
+    if (owner !== staleOwner) {
+      await fs.promises.link(claimed, this.lockFile).catch(() => undefined);
     }
+    await fs.promises.rm(claimed, { force: true });
   }
 
-  private async saveMetadata(): Promise<void> {
+  private async migrateChatFiles(): Promise<void> {
     try {
-      fs.writeFileSync(this.chatsFile, JSON.stringify(this.cache, null, 2), "utf-8");
+      for (const file of await this.listChatFiles()) {
+        const chatFile = path.join(this.chatDir, file);
+        const result = migrateChatData(JSON.parse(await fs.promises.readFile(chatFile, "utf-8")));
+        if (result?.migrated) {
+          await writeJsonAtomic(chatFile, result.chat);
+        }
+      }
     } catch (error) {
-      console.error("Failed to save metadata:", error);
+      console.error("Failed to migrate chats:", error);
     }
   }
 
@@ -150,4 +751,102 @@ export class SessionStorage {
   getChatDir(): string {
     return this.chatDir;
   }
+
+  dispose(): void {
+    if (this.watchTimer) {
+      clearTimeout(this.watchTimer);
+    }
+    this.watcher.dispose();
+    this.onDidChangeEmitter.dispose();
+  }
+}
+
+async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Math.random().toString(36).slice(2, 8)}.tmp`;
+  try {
+    await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export function currentWorkspace(): WorkspaceInfo | undefined {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  return folder ? workspaceForPath(folder.uri.fsPath) : undefined;
+}
+
+export function workspaceForPath(fsPath: string): WorkspaceInfo {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+  const root = path.resolve(folder?.uri.fsPath ?? fsPath);
+  const normalized = process.platform === "win32" ? root.toLowerCase() : root;
+  return {
+    key: crypto.createHash("sha256").update(normalized).digest("hex").slice(0, 16),
+    name: path.basename(root) || root
+  };
+}
+
+function toMetadata(chat: ChatData): ChatMetadata {
+  return {
+    id: chat.id,
+    title: chat.title,
+    createdAt: chat.createdAt,
+    updatedAt: chat.updatedAt,
+    sessionId: chat.sessionId,
+    workspaceKey: chat.workspaceKey,
+    workspaceName: chat.workspaceName,
+    ...organizationOf(chat),
+    ...forkOf(chat)
+  };
+}
+
+function forkOf(chat: Pick<ChatMetadata, "parentChatId" | "forkedFromMessage"> | undefined): Pick<ChatMetadata, "parentChatId" | "forkedFromMessage"> {
+  if (!chat?.parentChatId) {
+    return {};
+  }
+  return {
+    parentChatId: chat.parentChatId,
+    ...(typeof chat.forkedFromMessage === "number" ? { forkedFromMessage: chat.forkedFromMessage } : {})
+  };
+}
+
+function organizationOf(chat: ChatOrganization | undefined): ChatOrganization {
+  if (!chat) {
+    return {};
+  }
+  return {
+    ...(chat.customTitle ? { customTitle: chat.customTitle } : {}),
+    ...(chat.pinned ? { pinned: true } : {}),
+    ...(chat.tags?.length ? { tags: [...chat.tags] } : {}),
+    ...(chat.archived ? { archived: true } : {})
+  };
+}
+
+function migrateIndexData(raw: unknown): ChatMetadata[] {
+  // v1 stored the index as a bare array of chat metadata.
+  const data = Array.isArray(raw) ? { chats: raw } : raw as { chats?: unknown };
+  if (!data || typeof data !== "object" || !Array.isArray(data.chats)) {
+    throw new Error("Chat index has an unknown format");
+  }
+  return data.chats.filter((entry): entry is ChatMetadata =>
+    Boolean(entry) && typeof entry === "object" && typeof (entry as ChatMetadata).id === "string");
+}
+
+export function migrateChatData(raw: unknown): { chat: ChatData; migrated: boolean } | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const data = raw as Partial<ChatData>;
+  if (typeof data.id !== "string") {
+    return null;
+  }
+
+  // v1 stored assistant turns as plain text only; they stay valid v2 messages without activity.
+  const version = typeof data.schemaVersion === "number" ? data.schemaVersion : 1;
+  return {
+    chat: { schemaVersion: CHAT_SCHEMA_VERSION, ...sanitizeChatData({ ...data, id: data.id }) },
+    migrated: version < CHAT_SCHEMA_VERSION
+  };
 }
@@ -0,0 +1,132 @@
+import type { SessionNotification } from "@agentclientprotocol/sdk";
+import type {
+  StoredActivity,
+  StoredPlanEntry,
+  StoredTerminalSnapshot,
+  StoredToolContent
+} from "./SessionStorage";
+
+type ToolActivity = Extract<StoredActivity, { type: "tool" }>;
+type ThoughtActivity = Extract<StoredActivity, { type: "thought" }>;
+
+export class TurnRecorder {
+  private activity: StoredActivity[] = [];
+  private plan: StoredPlanEntry[] = [];
+  private readonly snapshots = new Map<string, StoredTerminalSnapshot>();
+  private thoughtStartedAt = 0;
+
+  public reset(): void {
+    this.activity = [];
+    this.plan = [];
+    this.snapshots.clear();
+    this.thoughtStartedAt = 0;
+  }
+
+  public apply(update: SessionNotification["update"]): void {
+    switch (update.sessionUpdate) {
+      case "agent_thought_chunk": {
+        if (update.content.type === "text") {
+          this.appendThought(update.content.text);
+        }
+        break;
+      }
+      case "tool_call":
+      case "tool_call_update": {
+        this.upsertTool(update);
+        break;
+      }
+      case "plan": {
+        this.plan = update.entries.map(({ content, priority, status }) => ({ content, priority, status }));
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  public addNotice(message: string): void {
+    this.activity.push({ type: "notice", message });
+  }
+
+  public applyTerminalSnapshot(snapshot: StoredTerminalSnapshot): void {
+    this.snapshots.set(snapshot.terminalId, snapshot);
+    for (const entry of this.activity) {
+      if (entry.type !== "tool") {
+        continue;
+      }
+      entry.content = entry.content.map((item) => item.type === "terminal" && item.terminalId === snapshot.terminalId
+        ? { ...item, snapshot }
+        : item);
+    }
+  }
+
+  public toStored(): { activity?: StoredActivity[]; plan?: StoredPlanEntry[] } {
+    return {
+      ...(this.activity.length ? { activity: this.activity.map((entry) => ({ ...entry })) } : {}),
+      ...(this.plan.length ? { plan: [...this.plan] } : {})
+    };
+  }
+
+  private appendThought(text: string): void {
+    const now = Date.now();
+    const last = this.activity[this.activity.length - 1];
+    let thought: ThoughtActivity;
+    if (last?.type === "thought") {
+      thought = last;
+      thought.text += text;
+    } else {
+      this.thoughtStartedAt = now;
+      thought = { type: "thought", text, elapsedSeconds: 1 };
+      this.activity.push(thought);
+    }
+    thought.elapsedSeconds = Math.max(1, Math.round((now - this.thoughtStartedAt) / 1000));
+  }
+
+  private upsertTool(update: Extract<SessionNotification["update"], { sessionUpdate: "tool_call" | "tool_call_update" }>): void {
+    const existing = this.activity.find(
+      (entry): entry is ToolActivity => entry.type === "tool" && entry.toolCallId === update.toolCallId
+    );
+    const next: ToolActivity = {
+      type: "tool",
+      toolCallId: update.toolCallId,
+      title: update.title?.trim() || existing?.title || "Tool call",
+      kind: update.kind ?? existing?.kind ?? "other",
+      status: update.status ?? existing?.status ?? "pending",
+      locations: update.locations
+        ? update.locations.map((location) => location.line ? `${location.path}:L${location.line}` : location.path)
+        : existing?.locations ?? [],
+      content: update.content
+        ? update.content.map((item) => this.toStoredContent(item)).filter((item): item is StoredToolContent => item !== null)
+        : existing?.content ?? []
+    };
+
+    if (existing) {
+      Object.assign(existing, next);
+    } else {
+      this.activity.push(next);
+    }
+  }
+
+  private toStoredContent(
+    item: NonNullable<Extract<SessionNotification["update"], { sessionUpdate: "tool_call" }>["content"]>[number]
+  ): StoredToolContent | null {
+    if (item.type === "terminal") {
+      return { type: "terminal", terminalId: item.terminalId, snapshot: this.snapshots.get(item.terminalId) ?? null };
+    }
+    if (item.type === "diff") {
+      return { type: "diff", path: item.path, oldText: item.oldText ?? null, newText: item.newText };
+    }
+
+    const block = item.content;
+    switch (block.type) {
+      case "text":
+        return { type: "text", text: block.text };
+      case "resource_link":
+        return { type: "text", text: `[${block.name || block.uri}]` };
+      case "resource":
+        return { type: "text", text: "text" in block.resource ? block.resource.text : `[${block.resource.uri}]` };
+      default:
+        return { type: "text", text: `[${block.type}]` };
+    }
+  }
+}
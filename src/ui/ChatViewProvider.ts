@@ -1,33 +1,104 @@
+import * as os from "node:os";
+import * as path from "node:path";
 import * as vscode from "vscode";
-import type { SessionNotification } from "@agentclientprotocol/sdk";
-import { AcpClient } from "../acp/AcpClient";
-import { SessionStorage } from "../storage/SessionStorage";
-
-interface ChatMessage {
-  role: "user" | "assistant";
-  content: string;
-  timestamp: number;
+import type {
+  ContentBlock,
+  RequestPermissionRequest,
+  RequestPermissionResponse,
+  SessionNotification
+} from "@agentclientprotocol/sdk";
+import { AcpClient, ConnectionLostError, type ReconnectEvent } from "../acp/AcpClient";
+import type { PermissionSubject } from "../acp/PermissionPolicy";
+import { WorkspaceSandbox } from "../acp/WorkspaceSandbox";
+import type { RevertHunk, WorkspaceWriter } from "../acp/WorkspaceWriter";
+import { isEmptyTurn } from "../shared/turns";
+import {
+  CHAT_SCHEMA_VERSION,
+  SessionStorage,
+  currentWorkspace,
+  type ChatInput,
+  type ChatMessage,
+  type CheckpointSummary,
+  type ChatMetadata,
+  type ChatOrganization,
+  type HistoryScope,
+  type StoredUsage,
+  type WorkspaceInfo
+} from "../storage/SessionStorage";
+import { exportChat, exportFileName, parseChatExport, type ExportFormat } from "../storage/ChatExport";
+import { CheckpointRecorder, readFileSnapshot, summarizeCheckpoint } from "../storage/CheckpointRecorder";
+import { selectVersion, versionCount, versionsAt, withVersions } from "../storage/MessageVersions";
+import { TurnRecorder } from "../storage/TurnRecorder";
+import { buildEditorPrompt, editorActionRange, type EditorActionKind } from "./EditorActions";
+import { MentionProvider, type MentionItem } from "./MentionProvider";
+
+
+type PromptAttachment =
+  | { kind: "image"; name: string; mimeType: string; data: string }
+  | { kind: "file"; name: string; uri: string }
+  | { kind: "mention"; name: string; mention: MentionItem };
+
+interface PromptOptions {
+  echo?: boolean;
+  versions?: ChatMessage[][];
 }
 
 type WebviewIncomingMessage =
   | { type: "ready" }
   | { type: "connect" }
   | { type: "newSession" }
-  | { type: "prompt"; text: string; includeSelection?: boolean }
+  | { type: "prompt"; text: string; includeSelection?: boolean; attachments?: PromptAttachment[] }
+  | { type: "pickAttachments" }
+  | { type: "searchMentions"; requestId: number; query: string }
+  | { type: "openDiff"; path: string; oldText: string | null; newText: string }
+  | { type: "revertDiff"; key: string; path: string; oldText: string | null; newText: string; hunk?: RevertHunk }
+  | { type: "permissionResponse"; requestId: string; optionId: string | null }
+  | { type: "permissionUnhandled"; requestId: string }
   | { type: "cancel" }
   | { type: "clear" }
   | { type: "setMode"; modeId: string }
   | { type: "setModel"; modelId: string }
   | { type: "showLogs" }
   | { type: "loadChatHistory" }
+  | { type: "setHistoryScope"; scope: HistoryScope }
+  | { type: "searchChats"; query: string }
+  | { type: "openSearchResult"; chatId: string; messageIndex?: number }
   | { type: "switchChat"; chatId: string }
   | { type: "deleteChat"; chatId: string }
+  | { type: "renameChat"; chatId: string }
+  | { type: "togglePinChat"; chatId: string }
+  | { type: "editChatTags"; chatId: string }
+  | { type: "toggleArchiveChat"; chatId: string }
+  | { type: "exportChat"; chatId: string }
+  | { type: "loadTrash" }
+  | { type: "restoreChats"; trashIds: string[] }
+  | { type: "emptyTrash"; trashIds?: string[] }
+  | { type: "revertTurn"; checkpointId: string }
+  | { type: "editMessage"; userIndex: number; text: string }
+  | { type: "regenerate"; modelId?: string }
+  | { type: "switchVersion"; userIndex: number; version: number }
+  | { type: "forkChat"; role: ChatMessage["role"]; ordinal: number }
+  | { type: "importChat" }
   | { type: "clearAllChats" };
 
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp"
+};
+
+const WORKSPACE_MIGRATION_KEY = "opencodeAcp.workspaceHistoryMigrated";
+const WEBVIEW_READY_TIMEOUT_MS = 10_000;
+
 export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disposable {
   public static readonly viewType = "opencodeAcp.chatView";
 
   private view: vscode.WebviewView | undefined;
+  private webviewReady = false;
+  private readonly onDidWebviewReady = new vscode.EventEmitter<void>();
   private promptInFlight = false;
   private readonly disposables: vscode.Disposable[] = [];
   private storage: SessionStorage;
@@ -35,14 +106,33 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
   private chatMessages: ChatMessage[] = [];
   private chatTitle: string = "";
   private currentChatCreatedAt = 0;
+  private chatSessionId: string | undefined;
+  private chatWorkspace: WorkspaceInfo | undefined;
+  private historyScope: HistoryScope = "workspace";
+  private historySyncedSessionId: string | null = null;
+  // Only sessions that hold the chat turn by turn are worth reloading; ones primed with a history summary are not.
+  private resumableSessionId: string | null = null;
   private assistantResponseBuffer = "";
+  private readonly turn = new TurnRecorder();
+  private readonly checkpoints = new CheckpointRecorder();
+  private readonly mentions = new MentionProvider();
+  private readonly sandbox = new WorkspaceSandbox();
+  private readonly pendingPermissions = new Map<string, (response: RequestPermissionResponse | null) => void>();
+  private permissionCounter = 0;
 
   constructor(
     private readonly extensionUri: vscode.Uri,
-    private readonly acp: AcpClient
+    private readonly acp: AcpClient,
+    private readonly writer: WorkspaceWriter,
+    private readonly globalState: vscode.Memento
   ) {
     this.storage = new SessionStorage();
     this.disposables.push(
+      this.storage,
+      this.onDidWebviewReady,
+      this.storage.onDidChange(() => {
+        void this.loadChatHistory();
+      }),
       this.acp.onDidStateChange((state) => {
         this.post({ type: "connectionState", state });
       }),
@@ -51,8 +141,23 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
       }),
       this.acp.onDidMetadataChange((metadata) => {
         this.post({ type: "metadata", metadata });
+      }),
+      this.acp.onDidReconnect((event) => {
+        void this.handleReconnect(event);
+      }),
+      this.acp.onDidTerminalViolation((message) => {
+        if (this.promptInFlight) {
+          this.turn.addNotice(message);
+        }
+        this.post({ type: "terminalNotice", message });
+      }),
+      this.acp.onDidTerminalOutput((snapshot) => {
+        this.turn.applyTerminalSnapshot(snapshot);
+        this.post({ type: "terminalOutput", snapshot });
       })
     );
+    this.acp.setPermissionPrompter((request, subject) => this.requestPermissionInline(request, subject));
+    this.acp.setFileChangeObserver(this.checkpoints);
   }
 
   resolveWebviewView(
@@ -61,6 +166,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
     _token: vscode.CancellationToken
   ): void {
     this.view = webviewView;
+    this.webviewReady = false;
 
     webviewView.webview.options = {
       enableScripts: true,
@@ -73,6 +179,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
       await this.handleMessage(message);
     });
 
+    webviewView.onDidDispose(() => {
+      this.view = undefined;
+      this.webviewReady = false;
+      this.settlePendingPermissions(null);
+    });
+
     if (vscode.workspace.getConfiguration("opencodeAcp").get<boolean>("autoConnect", true)) {
       void this.connect();
     }
@@ -80,18 +192,32 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
 
   public async connect(): Promise<void> {
     try {
-      await this.ensureConnectedSession();
+      if (this.acp.connectionState !== "connected") {
+        await this.acp.connect();
+      }
+      await this.migrateWorkspaceHistory();
 
       if (!this.currentChatId) {
         await this.loadLatestChatFromStorage();
       }
 
-      this.post({ type: "connected", sessionId: this.acp.currentSessionId });
+      if (this.acp.currentSessionId) {
+        this.post({ type: "connected", sessionId: this.acp.currentSessionId });
+        if (this.currentChatId) {
+          this.publishCurrentChat();
+        } else {
+          this.post({ type: "chatReset" });
+        }
+        return;
+      }
+
       if (this.currentChatId) {
-        this.publishCurrentChat();
+        await this.restoreChatSession();
       } else {
+        await this.acp.newSession();
         this.post({ type: "chatReset" });
       }
+      this.post({ type: "connected", sessionId: this.acp.currentSessionId });
     } catch (error) {
       this.post({ type: "error", message: this.toError(error) });
     }
@@ -117,6 +243,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
       this.currentChatId = null;
       this.chatTitle = "";
       this.currentChatCreatedAt = 0;
+      this.chatSessionId = undefined;
+      this.chatWorkspace = undefined;
       this.chatMessages = [];
       this.assistantResponseBuffer = "";
       this.post({ type: "chatReset" });
@@ -147,12 +275,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
       this.currentChatId = chat.id;
       this.chatTitle = chat.title;
       this.currentChatCreatedAt = chat.createdAt;
+      this.chatSessionId = chat.sessionId;
+      this.chatWorkspace = chat.workspaceKey
+        ? { key: chat.workspaceKey, name: chat.workspaceName ?? "" }
+        : undefined;
       this.chatMessages = [...chat.messages];
       this.assistantResponseBuffer = "";
 
-      await this.ensureConnectedSession(true);
-
-      this.publishCurrentChat();
+      if (this.acp.connectionState !== "connected") {
+        await this.acp.connect();
+      }
+      await this.restoreChatSession();
+      this.post({ type: "connected", sessionId: this.acp.currentSessionId });
     } catch (error) {
       this.post({ type: "error", message: this.toError(error) });
     }
@@ -168,9 +302,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
       if (chatId === this.currentChatId) {
         await this.newSession();
       }
-      await this.storage.deleteChat(chatId);
-      const chats = await this.storage.loadChatMetadata();
-      this.post({ type: "chatListUpdated", chats });
+      const trashIds = await this.storage.deleteChat(chatId);
+      await this.loadChatHistory();
+      this.postTrashed(trashIds, "Chat moved to trash");
     } catch (error) {
       this.post({ type: "error", message: this.toError(error) });
     }
@@ -183,16 +317,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
     }
 
     try {
-      await this.storage.clearAllChats();
+      const trashIds = await this.storage.clearAllChats(this.historyScope);
 
       this.currentChatId = null;
       this.chatTitle = "";
       this.currentChatCreatedAt = 0;
+      this.chatSessionId = undefined;
+      this.chatWorkspace = undefined;
       this.chatMessages = [];
       this.assistantResponseBuffer = "";
       this.post({ type: "chatReset" });
-      const chats = await this.storage.loadChatMetadata();
-      this.post({ type: "chatListUpdated", chats });
+      await this.loadChatHistory();
+      this.postTrashed(trashIds, `${trashIds.length} ${trashIds.length === 1 ? "chat" : "chats"} moved to trash`);
 
       if (this.acp.connectionState === "connected") {
         try {
@@ -209,30 +345,285 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
 
   public async loadChatHistory(): Promise<void> {
     try {
-      const chats = await this.storage.loadChatMetadata();
-      this.post({ type: "chatListUpdated", chats });
+      const chats = await this.storage.loadChatMetadata(this.historyScope);
+      this.post({
+        type: "chatListUpdated",
+        chats,
+        scope: this.historyScope,
+        workspaceName: currentWorkspace()?.name ?? null
+      });
+    } catch (error) {
+      this.post({ type: "error", message: this.toError(error) });
+    }
+  }
+
+  public async renameChat(chatId?: string): Promise<void> {
+    const chat = await this.resolveChatTarget(chatId, "Select a chat to rename");
+    if (!chat) {
+      return;
+    }
+
+    const title = await vscode.window.showInputBox({
+      title: "Rename Chat",
+      prompt: "Leave empty to use the automatic title",
+      value: chat.customTitle || chat.title
+    });
+    if (title === undefined) {
+      return;
+    }
+    await this.organizeChat(chat.id, { customTitle: title.trim() || undefined });
+  }
+
+  public async togglePinChat(chatId?: string): Promise<void> {
+    const chat = await this.resolveChatTarget(chatId, "Select a chat to pin or unpin");
+    if (chat) {
+      await this.organizeChat(chat.id, { pinned: !chat.pinned });
+    }
+  }
+
+  public async editChatTags(chatId?: string): Promise<void> {
+    const chat = await this.resolveChatTarget(chatId, "Select a chat to tag");
+    if (!chat) {
+      return;
+    }
+
+    const value = await vscode.window.showInputBox({
+      title: "Edit Chat Tags",
+      prompt: "Comma-separated tags",
+      value: (chat.tags ?? []).join(", ")
+    });
+    if (value === undefined) {
+      return;
+    }
+    const tags = [...new Set(value.split(",").map((tag) => tag.trim()).filter(Boolean))];
+    await this.organizeChat(chat.id, { tags });
+  }
+
+  public async toggleArchiveChat(chatId?: string): Promise<void> {
+    const chat = await this.resolveChatTarget(chatId, "Select a chat to archive or unarchive");
+    if (chat) {
+      await this.organizeChat(chat.id, { archived: !chat.archived });
+    }
+  }
+
+  public async exportChat(chatId?: string): Promise<void> {
+    try {
+      const target = await this.resolveChatTarget(chatId, "Select a chat to export");
+      if (!target) {
+        return;
+      }
+      if (target.id === this.currentChatId && this.chatMessages.length > 0 && !this.promptInFlight) {
+        await this.saveCurrentChat();
+      }
+
+      const chat = await this.storage.loadChat(target.id);
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: "Markdown", description: "Thoughts and tool calls in collapsible sections", format: "markdown" as ExportFormat },
+          { label: "JSON", description: "Lossless, can be imported again", format: "json" as ExportFormat },
+          { label: "HTML", description: "Standalone page that works offline", format: "html" as ExportFormat }
+        ],
+        { placeHolder: `Export "${chat.customTitle || chat.title}" as` }
+      );
+      if (!picked) {
+        return;
+      }
+
+      const baseUri = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(baseUri, exportFileName(chat, picked.format)),
+        filters: { [picked.label]: [exportFileName(chat, picked.format).split(".").pop() ?? "txt"] }
+      });
+      if (!uri) {
+        return;
+      }
+
+      const css = picked.format === "html"
+        ? new TextDecoder().decode(await vscode.workspace.fs.readFile(
+          vscode.Uri.joinPath(this.extensionUri, "dist", "webview", "main.css")
+        ))
+        : "";
+      await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(exportChat(chat, picked.format, css)));
+
+      const action = await vscode.window.showInformationMessage(`Exported chat to ${path.basename(uri.fsPath)}`, "Open");
+      if (action === "Open") {
+        await vscode.commands.executeCommand("vscode.open", uri);
+      }
+    } catch (error) {
+      void vscode.window.showErrorMessage(`Failed to export chat: ${this.toError(error)}`);
+    }
+  }
+
+  public async importChat(): Promise<void> {
+    try {
+      const [uri] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: "Import",
+        filters: { JSON: ["json"] }
+      }) ?? [];
+      if (!uri) {
+        return;
+      }
+
+      const chat = parseChatExport(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+      const imported = await this.storage.importChat(chat);
+      await this.loadChatHistory();
+
+      const action = await vscode.window.showInformationMessage(
+        `Imported "${imported.customTitle || imported.title}"`,
+        "Open"
+      );
+      if (action === "Open") {
+        await this.switchChat(imported.id);
+      }
+    } catch (error) {
+      void vscode.window.showErrorMessage(`Failed to import chat: ${this.toError(error)}`);
+    }
+  }
+
+  private async resolveChatTarget(chatId: string | undefined, placeHolder: string): Promise<ChatMetadata | undefined> {
+    const chats = await this.storage.loadChatMetadata(chatId ? "all" : this.historyScope);
+    const targetId = chatId ?? this.currentChatId;
+    if (targetId) {
+      return chats.find((chat) => chat.id === targetId);
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      chats.map((chat) => ({
+        label: `${chat.pinned ? "$(pinned) " : ""}${chat.customTitle || chat.title}`,
+        description: chat.tags?.join(", "),
+        chat
+      })),
+      { placeHolder }
+    );
+    return picked?.chat;
+  }
+
+  private async organizeChat(chatId: string, patch: ChatOrganization): Promise<void> {
+    try {
+      await this.storage.updateChatOrganization(chatId, patch);
+      await this.loadChatHistory();
     } catch (error) {
       this.post({ type: "error", message: this.toError(error) });
     }
   }
 
+  public async searchChats(query: string): Promise<void> {
+    try {
+      const results = query.trim() ? await this.storage.searchChats(query, this.historyScope) : [];
+      this.post({ type: "chatSearchResults", query, results });
+    } catch (error) {
+      this.post({ type: "error", message: this.toError(error) });
+    }
+  }
+
+  private async openSearchResult(chatId: string, messageIndex?: number): Promise<void> {
+    if (chatId !== this.currentChatId) {
+      await this.switchChat(chatId);
+      if (chatId !== this.currentChatId) {
+        return;
+      }
+    }
+
+    const message = messageIndex === undefined ? undefined : this.chatMessages[messageIndex];
+    if (message) {
+      const ordinal = this.chatMessages.slice(0, messageIndex).filter((entry) => entry.role === message.role).length;
+      this.post({ type: "revealMessage", role: message.role, ordinal });
+    }
+  }
+
   private async saveCurrentChat(): Promise<void> {
     if (!this.currentChatId) return;
 
     const createdAt = this.currentChatCreatedAt || Date.now();
     const updatedAt = Date.now();
+    const activeSessionId = this.acp.currentSessionId;
+    const sessionId = activeSessionId
+      ? activeSessionId === this.resumableSessionId ? activeSessionId : undefined
+      : this.chatSessionId;
+    this.chatWorkspace ??= currentWorkspace();
     await this.storage.saveChat({
       id: this.currentChatId,
       title: this.chatTitle,
       createdAt,
       updatedAt,
-      sessionId: this.acp.currentSessionId ?? undefined,
+      sessionId,
+      workspaceKey: this.chatWorkspace?.key,
+      workspaceName: this.chatWorkspace?.name,
       messages: this.chatMessages
     });
     this.currentChatCreatedAt = createdAt;
+    this.chatSessionId = sessionId;
+  }
+
+  private async handleReconnect(event: ReconnectEvent): Promise<void> {
+    switch (event.type) {
+      case "scheduled": {
+        this.post({ type: "reconnecting", attempt: event.attempt, maxAttempts: event.maxAttempts });
+        break;
+      }
+      case "restored": {
+        this.post({ type: "connected", sessionId: event.sessionId });
+        if (this.currentChatId && !this.promptInFlight) {
+          await this.saveCurrentChat();
+        }
+        break;
+      }
+      case "failed": {
+        this.post({ type: "error", message: event.error });
+        break;
+      }
+    }
+  }
+
+  private requestPermissionInline(
+    request: RequestPermissionRequest,
+    subject: PermissionSubject
+  ): Promise<RequestPermissionResponse | null> {
+    if (!this.view?.visible) {
+      return Promise.resolve(null);
+    }
+
+    const requestId = `permission-${++this.permissionCounter}`;
+    return new Promise((resolve) => {
+      this.pendingPermissions.set(requestId, resolve);
+      this.post({
+        type: "permissionRequest",
+        requestId,
+        toolCallId: request.toolCall.toolCallId,
+        title: subject.title,
+        kind: subject.kind,
+        locations: subject.locations,
+        rawInput: subject.rawInput === undefined ? "" : JSON.stringify(subject.rawInput, null, 2),
+        options: request.options.map(({ optionId, name, kind }) => ({ optionId, name, kind }))
+      });
+    });
+  }
+
+  private resolvePermission(requestId: string, response: RequestPermissionResponse | null): void {
+    const resolve = this.pendingPermissions.get(requestId);
+    if (!resolve) {
+      return;
+    }
+    this.pendingPermissions.delete(requestId);
+    resolve(response);
+  }
+
+  private settlePendingPermissions(response: RequestPermissionResponse | null): void {
+    for (const requestId of [...this.pendingPermissions.keys()]) {
+      this.resolvePermission(requestId, response);
+      if (response) {
+        this.post({ type: "permissionResolved", requestId, resolution: "Cancelled" });
+      }
+    }
   }
 
   public async cancel(): Promise<void> {
+    this.settlePendingPermissions({ outcome: { outcome: "cancelled" } });
     try {
       await this.acp.cancelTurn();
     } catch (error) {
@@ -241,12 +632,291 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
   }
 
   public clear(): void {
+    const snapshot: ChatInput | null = this.currentChatId && this.chatMessages.length
+      ? {
+        id: this.currentChatId,
+        title: this.chatTitle,
+        createdAt: this.currentChatCreatedAt || Date.now(),
+        updatedAt: Date.now(),
+        sessionId: this.chatSessionId,
+        workspaceKey: this.chatWorkspace?.key,
+        workspaceName: this.chatWorkspace?.name,
+        messages: this.chatMessages
+      }
+      : null;
+
     this.chatMessages = [];
     this.assistantResponseBuffer = "";
+    this.chatSessionId = undefined;
+    this.resumableSessionId = null;
+    this.historySyncedSessionId = null;
     this.post({ type: "chatReset" });
-    if (this.currentChatId) {
-      void this.saveCurrentChat();
+    if (!this.currentChatId) {
+      return;
+    }
+
+    void (async () => {
+      try {
+        const trashIds = snapshot
+          ? await this.storage.trashSnapshot({ schemaVersion: CHAT_SCHEMA_VERSION, ...snapshot })
+          : [];
+        if (this.acp.connectionState === "connected" && !this.promptInFlight) {
+          await this.startFreshSession();
+          this.post({ type: "connected", sessionId: this.acp.currentSessionId });
+        }
+        await this.saveCurrentChat();
+        this.postTrashed(trashIds, "Chat cleared");
+      } catch (error) {
+        this.post({ type: "error", message: this.toError(error) });
+      }
+    })();
+  }
+
+  public async loadTrash(): Promise<void> {
+    try {
+      this.post({ type: "trashListUpdated", entries: await this.storage.listTrash() });
+    } catch (error) {
+      this.post({ type: "error", message: this.toError(error) });
+    }
+  }
+
+  public async restoreChats(trashIds: string[]): Promise<void> {
+    try {
+      const restored = await this.storage.restoreFromTrash(trashIds);
+      if (this.currentChatId && restored.some((chat) => chat.id === this.currentChatId) && !this.promptInFlight) {
+        const chat = await this.storage.loadChat(this.currentChatId);
+        if (chat) {
+          this.chatMessages = [...chat.messages];
+          this.publishCurrentChat();
+        }
+      }
+      await this.loadChatHistory();
+      await this.loadTrash();
+      this.post({
+        type: "toast",
+        message: `Restored ${restored.length} ${restored.length === 1 ? "chat" : "chats"}`
+      });
+    } catch (error) {
+      this.post({ type: "error", message: this.toError(error) });
+    }
+  }
+
+  public async emptyTrash(trashIds?: string[]): Promise<void> {
+    try {
+      await this.storage.emptyTrash(trashIds);
+      await this.loadTrash();
+    } catch (error) {
+      this.post({ type: "error", message: this.toError(error) });
+    }
+  }
+
+  private postTrashed(trashIds: string[], message: string): void {
+    if (trashIds.length) {
+      this.post({ type: "toast", message, trashIds });
+    }
+  }
+
+  public async revertTurn(checkpointId: string): Promise<void> {
+    if (this.promptInFlight) {
+      void vscode.window.showWarningMessage("Stop the running turn before reverting an earlier one.");
+      return;
+    }
+
+    const message = this.chatMessages.find((entry) => entry.checkpoint?.id === checkpointId);
+    const checkpoint = message?.checkpoint && this.currentChatId
+      ? await this.storage.loadCheckpoint(this.currentChatId, checkpointId)
+      : null;
+    if (!message?.checkpoint || !checkpoint) {
+      void vscode.window.showErrorMessage("The checkpoint for this turn is no longer available.");
+      return;
+    }
+
+    const restorable = checkpoint.files.filter((file) => file.restorable);
+    if (!restorable.length) {
+      void vscode.window.showWarningMessage("None of the files changed by this turn can be restored.");
+      return;
+    }
+
+    const changedSince: string[] = [];
+    for (const file of restorable) {
+      if (await readFileSnapshot(file.path) !== file.after) {
+        changedSince.push(vscode.workspace.asRelativePath(file.path));
+      }
+    }
+
+    const detail = [
+      ...message.checkpoint.files.map((file) => describeCheckpointFile(file)),
+      ...(changedSince.length ? ["", `Edited since this turn: ${changedSince.join(", ")}`] : [])
+    ].join("\n");
+    const choice = await vscode.window.showWarningMessage(
+      `Revert ${restorable.length} ${restorable.length === 1 ? "file" : "files"} changed by this turn?`,
+      { modal: true, detail },
+      "Revert"
+    );
+    if (choice !== "Revert") {
+      return;
+    }
+
+    const failed: string[] = [];
+    for (const file of restorable) {
+      try {
+        await this.writer.restore(await this.workspacePath(file.path), file.before);
+      } catch (error) {
+        failed.push(`${vscode.workspace.asRelativePath(file.path)}: ${this.toError(error)}`);
+      }
+    }
+
+    message.checkpoint = { ...message.checkpoint, revertedAt: Date.now() };
+    await this.saveCurrentChat();
+    this.post({ type: "checkpointReverted", checkpointId, revertedAt: message.checkpoint.revertedAt });
+
+    const reverted = restorable.length - failed.length;
+    this.post({ type: "toast", message: `Reverted ${reverted} ${reverted === 1 ? "file" : "files"}` });
+    if (failed.length) {
+      void vscode.window.showErrorMessage(`Some files could not be reverted: ${failed.join("; ")}`);
+    }
+  }
+
+  public async editMessage(userIndex: number, text: string): Promise<void> {
+    const index = this.messageIndex("user", userIndex);
+    if (index < 0) {
+      this.post({ type: "error", message: "That message is no longer part of this chat." });
+      return;
+    }
+    if (!text.trim()) {
+      this.post({ type: "error", message: "The edited message is empty." });
+      return;
+    }
+    await this.rerunFrom(index, text);
+  }
+
+  public async regenerate(modelId?: string): Promise<void> {
+    const index = this.chatMessages.map((message) => message.role).lastIndexOf("user");
+    if (index < 0) {
+      this.post({ type: "error", message: "There is no reply to regenerate." });
+      return;
+    }
+    if (!this.chatMessages[index].content.trim()) {
+      this.post({ type: "error", message: "Replies to attachment-only messages cannot be regenerated." });
+      return;
     }
+    await this.rerunFrom(index, this.chatMessages[index].content, modelId);
+  }
+
+  public async switchVersion(userIndex: number, version: number): Promise<void> {
+    if (this.promptInFlight) {
+      this.post({ type: "error", message: "Cannot switch versions while a response is running." });
+      return;
+    }
+
+    const index = this.messageIndex("user", userIndex);
+    if (index < 0 || version < 0 || version >= versionCount(this.chatMessages[index])) {
+      return;
+    }
+
+    try {
+      await this.startFreshSession();
+      this.chatMessages = selectVersion(this.chatMessages, index, version);
+      await this.saveCurrentChat();
+      this.publishCurrentChat();
+    } catch (error) {
+      this.post({ type: "error", message: this.toError(error) });
+    }
+  }
+
+  private async rerunFrom(index: number, text: string, modelId?: string): Promise<void> {
+    if (this.promptInFlight) {
+      this.post({ type: "error", message: "Previous request is still running. Press Stop and try again." });
+      return;
+    }
+
+    try {
+      await this.startFreshSession(modelId);
+    } catch (error) {
+      this.post({ type: "error", message: this.toError(error) });
+      return;
+    }
+
+    const versions = versionsAt(this.chatMessages, index);
+    this.chatMessages = this.chatMessages.slice(0, index);
+    this.publishCurrentChat();
+    await this.handlePrompt(text, false, [], { echo: true, versions });
+  }
+
+  public async forkChat(role: ChatMessage["role"], ordinal: number): Promise<void> {
+    if (this.promptInFlight) {
+      this.post({ type: "error", message: "Cannot fork while a response is running." });
+      return;
+    }
+
+    const index = this.messageIndex(role, ordinal);
+    if (!this.currentChatId || index < 0) {
+      this.post({ type: "error", message: "That message is no longer part of this chat." });
+      return;
+    }
+
+    try {
+      await this.saveCurrentChat();
+      const fork = await this.storage.forkChat(this.currentChatId, index);
+      if (!fork) {
+        this.post({ type: "error", message: "The chat could not be forked." });
+        return;
+      }
+
+      // The fork's first prompt will carry its history as a summary, so its session is never saved for reload.
+      await this.startFreshSession();
+      this.resumableSessionId = null;
+      this.currentChatId = fork.id;
+      this.chatTitle = fork.title;
+      this.currentChatCreatedAt = fork.createdAt;
+      this.chatSessionId = undefined;
+      this.chatWorkspace = fork.workspaceKey
+        ? { key: fork.workspaceKey, name: fork.workspaceName ?? "" }
+        : undefined;
+      this.chatMessages = [...fork.messages];
+      this.assistantResponseBuffer = "";
+      await this.saveCurrentChat();
+      this.publishCurrentChat();
+      this.post({ type: "connected", sessionId: this.acp.currentSessionId });
+      await this.loadChatHistory();
+      this.post({ type: "toast", message: `Forked into "${fork.title}"` });
+    } catch (error) {
+      this.post({ type: "error", message: this.toError(error) });
+    }
+  }
+
+  private messageIndex(role: ChatMessage["role"], ordinal: number): number {
+    let seen = -1;
+    return this.chatMessages.findIndex((message) => message.role === role && ++seen === ordinal);
+  }
+
+  private async startFreshSession(modelId?: string): Promise<void> {
+    const currentModel = () => (this.acp.sessionMetadata.models as { currentModelId?: string } | undefined)?.currentModelId;
+    const targetModel = modelId ?? currentModel();
+    await this.ensureConnectedSession(true);
+    if (targetModel && targetModel !== currentModel()) {
+      await this.acp.setModel(targetModel);
+    }
+  }
+
+  public async runEditorAction(
+    kind: EditorActionKind,
+    uri: vscode.Uri,
+    range: vscode.Range,
+    diagnostics: readonly vscode.Diagnostic[] = []
+  ): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const prompt = buildEditorPrompt(kind, document, editorActionRange(document, range, diagnostics), diagnostics);
+
+    await vscode.commands.executeCommand(`${ChatViewProvider.viewType}.focus`);
+    await this.waitForWebview();
+
+    if (this.promptInFlight) {
+      void vscode.window.showWarningMessage("OpenCode is still working on the previous request.");
+      return;
+    }
+
+    await this.handlePrompt(prompt, false, [], { echo: true });
   }
 
   public showLogs(): void {
@@ -265,6 +935,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
         } else {
           this.post({ type: "chatReset" });
         }
+        this.webviewReady = true;
+        this.onDidWebviewReady.fire();
         break;
       }
       case "connect": {
@@ -287,6 +959,75 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
         await this.loadChatHistory();
         break;
       }
+      case "renameChat": {
+        await this.renameChat(message.chatId);
+        break;
+      }
+      case "togglePinChat": {
+        await this.togglePinChat(message.chatId);
+        break;
+      }
+      case "editChatTags": {
+        await this.editChatTags(message.chatId);
+        break;
+      }
+      case "toggleArchiveChat": {
+        await this.toggleArchiveChat(message.chatId);
+        break;
+      }
+      case "exportChat": {
+        await this.exportChat(message.chatId);
+        break;
+      }
+      case "importChat": {
+        await this.importChat();
+        break;
+      }
+      case "loadTrash": {
+        await this.loadTrash();
+        break;
+      }
+      case "restoreChats": {
+        await this.restoreChats(Array.isArray(message.trashIds) ? message.trashIds : []);
+        break;
+      }
+      case "emptyTrash": {
+        await this.emptyTrash(message.trashIds);
+        break;
+      }
+      case "revertTurn": {
+        await this.revertTurn(message.checkpointId);
+        break;
+      }
+      case "editMessage": {
+        await this.editMessage(message.userIndex, message.text);
+        break;
+      }
+      case "regenerate": {
+        await this.regenerate(message.modelId);
+        break;
+      }
+      case "switchVersion": {
+        await this.switchVersion(message.userIndex, message.version);
+        break;
+      }
+      case "forkChat": {
+        await this.forkChat(message.role, message.ordinal);
+        break;
+      }
+      case "searchChats": {
+        await this.searchChats(message.query);
+        break;
+      }
+      case "openSearchResult": {
+        await this.openSearchResult(message.chatId, message.messageIndex);
+        break;
+      }
+      case "setHistoryScope": {
+        this.historyScope = message.scope === "all" ? "all" : "workspace";
+        await this.loadChatHistory();
+        break;
+      }
       case "cancel": {
         await this.cancel();
         break;
@@ -319,52 +1060,184 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
         this.showLogs();
         break;
       }
+      case "permissionResponse": {
+        this.resolvePermission(
+          message.requestId,
+          message.optionId
+            ? { outcome: { outcome: "selected", optionId: message.optionId } }
+            : { outcome: { outcome: "cancelled" } }
+        );
+        break;
+      }
+      case "permissionUnhandled": {
+        this.resolvePermission(message.requestId, null);
+        break;
+      }
+      case "searchMentions": {
+        const items = await this.mentions.search(message.query).catch(() => []);
+        this.post({ type: "mentionResults", requestId: message.requestId, items });
+        break;
+      }
+      case "pickAttachments": {
+        await this.pickAttachments();
+        break;
+      }
+      case "openDiff": {
+        await this.openDiff(message.path, message.oldText, message.newText);
+        break;
+      }
+      case "revertDiff": {
+        await this.revertDiff(message.key, message.path, message.oldText, message.newText, message.hunk);
+        break;
+      }
       case "prompt": {
-        await this.handlePrompt(message.text, Boolean(message.includeSelection));
+        await this.handlePrompt(message.text, Boolean(message.includeSelection), message.attachments ?? []);
         break;
       }
     }
   }
 
-  private async handlePrompt(text: string, includeSelection: boolean): Promise<void> {
+  private async revertDiff(
+    key: string,
+    filePath: string,
+    oldText: string | null,
+    newText: string,
+    hunk: RevertHunk | undefined
+  ): Promise<void> {
+    try {
+      const target = await this.workspacePath(filePath);
+      if (hunk) {
+        await this.writer.revertHunk(target, hunk);
+      } else if (!await this.writer.revertFile(target, oldText, newText)) {
+        return;
+      }
+      this.post({ type: "diffReverted", key });
+    } catch (error) {
+      void vscode.window.showErrorMessage(`Revert failed: ${this.toError(error)}`);
+    }
+  }
+
+  private async openDiff(filePath: string, oldText: string | null, newText: string): Promise<void> {
+    try {
+      await this.writer.showDiff(await this.workspacePath(filePath), oldText, newText);
+    } catch (error) {
+      void vscode.window.showErrorMessage(`Cannot open diff: ${this.toError(error)}`);
+    }
+  }
+
+  private async workspacePath(filePath: string): Promise<string> {
+    const decision = await this.sandbox.check(filePath);
+    if (!decision.allowed) {
+      throw new Error(`${decision.requestedPath} is outside the workspace`);
+    }
+    return decision.resolvedPath;
+  }
+
+  private async pickAttachments(): Promise<void> {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: true,
+      canSelectFiles: true,
+      canSelectFolders: false,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      openLabel: "Attach"
+    });
+    if (!uris?.length) {
+      return;
+    }
+
+    const attachments: PromptAttachment[] = [];
+    for (const uri of uris) {
+      const name = path.basename(uri.fsPath);
+      const mimeType = IMAGE_MIME_TYPES[path.extname(uri.fsPath).toLowerCase()];
+      if (mimeType && this.acp.promptCapabilities.image) {
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.size > MAX_IMAGE_BYTES) {
+          this.post({ type: "error", message: `${name} is larger than 5 MB and was not attached.` });
+          continue;
+        }
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        attachments.push({ kind: "image", name, mimeType, data: Buffer.from(bytes).toString("base64") });
+        continue;
+      }
+      attachments.push({ kind: "file", name, uri: uri.toString() });
+    }
+
+    this.post({ type: "attachmentsPicked", attachments });
+  }
+
+  private async handlePrompt(
+    text: string,
+    includeSelection: boolean,
+    attachments: PromptAttachment[] = [],
+    options: PromptOptions = {}
+  ): Promise<void> {
     if (this.promptInFlight) {
       this.post({ type: "error", message: "Previous request is still running. Press Stop and try again." });
       return;
     }
 
     const trimmed = text.trim();
-    if (!trimmed) {
+    if (!trimmed && attachments.length === 0) {
       return;
     }
 
     if (!this.currentChatId) {
-      const { id, title, createdAt } = await this.storage.createChat(this.acp.currentSessionId ?? undefined);
+      const { id, title, createdAt, workspace } = await this.storage.createChat(this.acp.currentSessionId ?? undefined);
       this.currentChatId = id;
       this.chatTitle = title;
       this.currentChatCreatedAt = createdAt;
+      this.chatSessionId = this.acp.currentSessionId ?? undefined;
+      this.chatWorkspace = workspace;
       await this.loadChatHistory();
     }
 
-    this.chatMessages.push({ role: "user", content: trimmed, timestamp: Date.now() });
+    const userMessage: ChatMessage = {
+      role: "user",
+      content: trimmed,
+      timestamp: Date.now(),
+      ...(attachments.length ? { attachments: attachments.map(({ kind, name }) => ({ kind, name })) } : {})
+    };
+    const versions = options.versions ?? [];
+    this.chatMessages.push(withVersions(userMessage, versions, versions.length));
+    if (options.echo) {
+      this.post(historyMessagePayload(this.chatMessages[this.chatMessages.length - 1]));
+    }
     if (this.chatMessages.length === 1) {
-      this.chatTitle = trimmed.substring(0, 50) + (trimmed.length > 50 ? "..." : "");
+      const titleSource = trimmed || attachments.map((attachment) => attachment.name).join(", ");
+      this.chatTitle = titleSource.substring(0, 50) + (titleSource.length > 50 ? "..." : "");
       this.post({ type: "chatLoaded", chatId: this.currentChatId, title: this.chatTitle });
     }
 
     this.promptInFlight = true;
     this.assistantResponseBuffer = "";
+    this.turn.reset();
+    this.checkpoints.begin();
     this.post({ type: "promptStart" });
 
     try {
       await this.ensureConnectedSession();
 
-      const promptBase = includeSelection
-        ? this.withSelectionContext(trimmed)
-        : trimmed;
-      const history = this.chatMessages.slice(0, -1);
-      const prompt = this.withChatHistoryContext(promptBase, history);
+      const synced = this.acp.currentSessionId === this.historySyncedSessionId;
+      const history = synced ? [] : this.chatMessages.slice(0, -1);
+      if (!synced) {
+        this.resumableSessionId = history.length ? null : this.acp.currentSessionId;
+      }
+      const promptText = this.withChatHistoryContext(trimmed, history);
+      const prompt: ContentBlock[] = promptText ? [{ type: "text", text: promptText }] : [];
+      if (includeSelection) {
+        const selection = this.selectionContextBlock();
+        if (selection) {
+          prompt.push(selection);
+        }
+      }
+      for (const attachment of attachments) {
+        prompt.push(await this.attachmentBlock(attachment));
+      }
 
+      const sessionId = this.acp.currentSessionId;
       const response = await this.acp.sendPrompt(prompt);
+      this.historySyncedSessionId = sessionId;
+      const checkpoint = await this.finishCheckpoint();
       
       this.post({
         type: "promptEnd",
@@ -372,29 +1245,103 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
         usage: response.usage ?? null
       });
 
-      this.flushAssistantResponseToHistory();
+      this.flushAssistantResponseToHistory(false, response.stopReason, response.usage ?? undefined, checkpoint);
       
       await this.saveCurrentChat();
       await this.loadChatHistory();
     } catch (error) {
-      this.flushAssistantResponseToHistory();
+      const checkpoint = await this.finishCheckpoint();
+      if (error instanceof ConnectionLostError) {
+        this.flushAssistantResponseToHistory(true, "interrupted", undefined, checkpoint);
+        this.post({ type: "promptEnd", stopReason: "interrupted" });
+        await this.saveCurrentChat();
+        await this.loadChatHistory();
+        return;
+      }
+      this.flushAssistantResponseToHistory(false, "error", undefined, checkpoint);
+      this.chatMessages.push({ role: "error", content: this.toError(error), timestamp: Date.now() });
       this.post({ type: "error", message: this.toError(error) });
       this.post({ type: "promptEnd", stopReason: "error" });
       await this.saveCurrentChat();
       await this.loadChatHistory();
     } finally {
+      this.settlePendingPermissions({ outcome: { outcome: "cancelled" } });
       this.assistantResponseBuffer = "";
+      this.turn.reset();
+      this.checkpoints.cancel();
       this.promptInFlight = false;
     }
   }
 
+  private async finishCheckpoint(): Promise<CheckpointSummary | undefined> {
+    try {
+      const checkpoint = await this.checkpoints.finish();
+      if (!checkpoint || !this.currentChatId) {
+        return undefined;
+      }
+
+      await this.storage.saveCheckpoint(this.currentChatId, checkpoint);
+      const summary = summarizeCheckpoint(checkpoint);
+      this.post({ type: "turnCheckpoint", checkpoint: summary });
+      return summary;
+    } catch (error) {
+      this.acp.log(`Failed to record turn checkpoint: ${this.toError(error)}`);
+      return undefined;
+    }
+  }
+
+  private waitForWebview(): Promise<void> {
+    if (this.webviewReady) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        listener.dispose();
+        resolve();
+      }, WEBVIEW_READY_TIMEOUT_MS);
+      const listener = this.onDidWebviewReady.event(() => {
+        clearTimeout(timer);
+        listener.dispose();
+        resolve();
+      });
+    });
+  }
+
+  private async migrateWorkspaceHistory(): Promise<void> {
+    if (this.globalState.get<boolean>(WORKSPACE_MIGRATION_KEY)) {
+      return;
+    }
+
+    try {
+      const cwdBySession = new Map<string, string>();
+      if (this.acp.supportsListSessions) {
+        for (const session of await this.acp.listSessions()) {
+          cwdBySession.set(session.sessionId, session.cwd);
+        }
+      }
+      const assigned = await this.storage.assignWorkspaces((chat) =>
+        chat.sessionId ? cwdBySession.get(chat.sessionId) : undefined);
+      await this.globalState.update(WORKSPACE_MIGRATION_KEY, true);
+      if (assigned) {
+        await this.loadChatHistory();
+      }
+    } catch (error) {
+      this.acp.log(`Failed to assign existing chats to workspaces: ${this.toError(error)}`);
+    }
+  }
+
   private async loadLatestChatFromStorage(): Promise<void> {
-    const metadata = await this.storage.loadChatMetadata();
-    const latest = metadata[0];
+    const metadata = await this.storage.loadChatMetadata("workspace");
+    const latest = metadata
+      .filter((chat) => !chat.archived)
+      .sort((a, b) => b.updatedAt - a.updatedAt)[0];
     if (!latest) {
       this.currentChatId = null;
       this.chatTitle = "";
       this.currentChatCreatedAt = 0;
+      this.chatSessionId = undefined;
+      this.chatWorkspace = undefined;
       this.chatMessages = [];
       return;
     }
@@ -404,6 +1351,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
       this.currentChatId = null;
       this.chatTitle = "";
       this.currentChatCreatedAt = 0;
+      this.chatSessionId = undefined;
+      this.chatWorkspace = undefined;
       this.chatMessages = [];
       return;
     }
@@ -411,16 +1360,54 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
     this.currentChatId = chat.id;
     this.chatTitle = chat.title;
     this.currentChatCreatedAt = chat.createdAt;
+    this.chatSessionId = chat.sessionId;
+    this.chatWorkspace = chat.workspaceKey
+      ? { key: chat.workspaceKey, name: chat.workspaceName ?? "" }
+      : undefined;
     this.chatMessages = [...chat.messages];
   }
 
-  private flushAssistantResponseToHistory(): void {
+  private async restoreChatSession(): Promise<void> {
+    const sessionId = this.chatSessionId;
+    if (sessionId && this.acp.supportsLoadSession) {
+      try {
+        await this.acp.loadSession(sessionId);
+        this.historySyncedSessionId = sessionId;
+        this.resumableSessionId = sessionId;
+        this.publishCurrentChat();
+        return;
+      } catch (error) {
+        this.acp.log(`Failed to load ACP session ${sessionId}, starting a new one: ${this.toError(error)}`);
+      }
+    }
+
+    await this.acp.newSession();
+    this.publishCurrentChat();
+  }
+
+  private flushAssistantResponseToHistory(
+    interrupted = false,
+    stopReason?: string,
+    usage?: StoredUsage,
+    checkpoint?: CheckpointSummary
+  ): void {
     const text = this.assistantResponseBuffer;
-    if (!text.trim()) {
+    const turn = this.turn.toStored();
+    if (isEmptyTurn({ text, activity: turn.activity ?? [], plan: turn.plan ?? [], interrupted, checkpoint })) {
       return;
     }
-    this.chatMessages.push({ role: "assistant", content: text, timestamp: Date.now() });
+    this.chatMessages.push({
+      role: "assistant",
+      content: text,
+      timestamp: Date.now(),
+      ...(interrupted ? { interrupted: true } : {}),
+      ...turn,
+      ...(stopReason ? { stopReason } : {}),
+      ...(usage ? { usage } : {}),
+      ...(checkpoint ? { checkpoint } : {})
+    });
     this.assistantResponseBuffer = "";
+    this.turn.reset();
   }
 
   private withChatHistoryContext(prompt: string, history: ChatMessage[]): string {
@@ -433,7 +1420,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
     }
 
     const maxMessages = 24;
-    const clippedHistory = history.slice(-maxMessages);
+    const clippedHistory = history.filter((message) => message.role !== "error").slice(-maxMessages);
     const lines = clippedHistory.map((message) => {
       const role = message.role === "user" ? "User" : "Assistant";
       const normalized = message.content.replace(/\s+/g, " ").trim();
@@ -452,23 +1439,32 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
     ].join("\n");
   }
 
-  private withSelectionContext(prompt: string): string {
+  private selectionContextBlock(): ContentBlock | null {
     const editor = vscode.window.activeTextEditor;
     if (!editor || editor.selection.isEmpty) {
-      return prompt;
+      return null;
     }
 
     const selectedText = editor.document.getText(editor.selection);
     if (!selectedText.trim()) {
-      return prompt;
+      return null;
     }
 
     const startLine = editor.selection.start.line + 1;
     const endLine = editor.selection.end.line + 1;
-    const relativePath = vscode.workspace.asRelativePath(editor.document.uri, false);
 
+    if (this.acp.promptCapabilities.embeddedContext) {
+      return {
+        type: "resource",
+        resource: {
+          uri: editor.document.uri.with({ fragment: `L${startLine}-L${endLine}` }).toString(),
+          text: selectedText
+        }
+      };
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(editor.document.uri, false);
     const context = [
-      "",
       "Context from current selection:",
       `File: ${relativePath}:${startLine}-${endLine}`,
       "```",
@@ -476,16 +1472,34 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
       "```"
     ].join("\n");
 
-    return `${prompt}\n${context}`;
+    return { type: "text", text: context };
+  }
+
+  private async attachmentBlock(attachment: PromptAttachment): Promise<ContentBlock> {
+    if (attachment.kind === "image") {
+      return { type: "image", data: attachment.data, mimeType: attachment.mimeType };
+    }
+
+    const embeddedContext = Boolean(this.acp.promptCapabilities.embeddedContext);
+    if (attachment.kind === "mention") {
+      return this.mentions.toContentBlock(attachment.mention, embeddedContext);
+    }
+    return this.mentions.fileBlock(vscode.Uri.parse(attachment.uri), attachment.name, embeddedContext);
   }
 
   private handleSessionUpdate(notification: SessionNotification): void {
     const update = notification.update as { sessionUpdate?: string; [key: string]: unknown };
-    if (update.sessionUpdate === "agent_message_chunk") {
-      const text = this.extractChunkText(update);
-      if (text) {
-        this.assistantResponseBuffer += text;
+    if (this.acp.isLoadingSession) {
+      return;
+    }
+    if (this.promptInFlight) {
+      if (update.sessionUpdate === "agent_message_chunk") {
+        const text = this.extractChunkText(update);
+        if (text) {
+          this.assistantResponseBuffer += text;
+        }
       }
+      this.turn.apply(notification.update);
     }
 
     this.post({
@@ -502,7 +1516,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
 
     this.post({ type: "chatReset" });
     for (const message of this.chatMessages) {
-      this.post({ type: "chatHistoryMessage", role: message.role, content: message.content, timestamp: message.timestamp });
+      this.post(historyMessagePayload(message));
     }
     this.post({ type: "chatLoaded", chatId: this.currentChatId, title: this.chatTitle });
   }
@@ -569,8 +1583,36 @@ export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disp
   }
 
   dispose(): void {
+    this.acp.setPermissionPrompter(null);
+    this.acp.setFileChangeObserver(null);
+    this.checkpoints.cancel();
+    this.settlePendingPermissions(null);
     for (const disposable of this.disposables) {
       disposable.dispose();
     }
   }
 }
+
+function historyMessagePayload(message: ChatMessage): Record<string, unknown> {
+  return {
+    type: "chatHistoryMessage",
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp,
+    interrupted: Boolean(message.interrupted),
+    attachments: message.attachments ?? [],
+    plan: message.plan ?? [],
+    activity: message.activity ?? [],
+    stopReason: message.stopReason ?? null,
+    usage: message.usage ?? null,
+    checkpoint: message.checkpoint ?? null,
+    versionCount: versionCount(message),
+    versionIndex: message.versionIndex ?? 0
+  };
+}
+
+function describeCheckpointFile(file: CheckpointSummary["files"][number]): string {
+  const counts = [file.added ? `+${file.added}` : "", file.removed ? `-${file.removed}` : ""].filter(Boolean).join(" ");
+  const status = file.restorable ? file.change : "changed, cannot be restored";
+  return `${vscode.workspace.asRelativePath(file.path)}: ${status}${counts ? ` (${counts})` : ""}`;
+}
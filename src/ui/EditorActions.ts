@@ -0,0 +1,86 @@
+import * as vscode from "vscode";
+
+export type EditorActionKind = "explain" | "fix" | "tests";
+
+export const EDITOR_ACTION_COMMANDS: Record<EditorActionKind, string> = {
+  explain: "opencodeAcp.explainSelection",
+  fix: "opencodeAcp.fixSelection",
+  tests: "opencodeAcp.writeTests"
+};
+
+const TEMPLATE_SETTINGS: Record<EditorActionKind, string> = {
+  explain: "explainPromptTemplate",
+  fix: "fixPromptTemplate",
+  tests: "testsPromptTemplate"
+};
+
+const DEFAULT_TEMPLATES: Record<EditorActionKind, string> = {
+  explain: "Explain what this code in ${file} (lines ${startLine}-${endLine}) does.\n\n```${language}\n${selection}\n```",
+  fix: "Fix the problems in ${file} (lines ${startLine}-${endLine}).\n\n${diagnostics}\n\n```${language}\n${selection}\n```",
+  tests: "Write tests for this code from ${file} (lines ${startLine}-${endLine}), following the project's existing test conventions.\n\n```${language}\n${selection}\n```"
+};
+
+export function buildEditorPrompt(
+  kind: EditorActionKind,
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  diagnostics: readonly vscode.Diagnostic[] = []
+): string {
+  const template = vscode.workspace
+    .getConfiguration("opencodeAcp")
+    .get<string>(TEMPLATE_SETTINGS[kind], "")
+    .trim() || DEFAULT_TEMPLATES[kind];
+
+  const lines = range.isEmpty ? document.lineAt(range.start.line).range : range;
+  const values: Record<string, string> = {
+    file: vscode.workspace.asRelativePath(document.uri),
+    startLine: String(lines.start.line + 1),
+    endLine: String(lines.end.line + 1),
+    language: document.languageId,
+    selection: document.getText(lines),
+    diagnostics: diagnostics.length
+      ? diagnostics.map((diagnostic) => `- Line ${diagnostic.range.start.line + 1}: ${diagnostic.message}${diagnostic.source ? ` (${diagnostic.source})` : ""}`).join("\n")
+      : "No diagnostics reported."
+  };
+  return template.replace(/\$\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+export function editorActionRange(document: vscode.TextDocument, range: vscode.Range, diagnostics: readonly vscode.Diagnostic[]): vscode.Range {
+  if (!range.isEmpty || !diagnostics.length) {
+    return range;
+  }
+  const covered = diagnostics.reduce((union, diagnostic) => union.union(diagnostic.range), diagnostics[0].range);
+  return new vscode.Range(covered.start.line, 0, covered.end.line, document.lineAt(covered.end.line).text.length);
+}
+
+export class AgentCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    if (!context.diagnostics.length) {
+      return [];
+    }
+
+    const fix = new vscode.CodeAction("Fix with OpenCode", vscode.CodeActionKind.QuickFix);
+    fix.diagnostics = [...context.diagnostics];
+    fix.command = {
+      title: fix.title,
+      command: EDITOR_ACTION_COMMANDS.fix,
+      arguments: [document.uri, range, context.diagnostics]
+    };
+
+    const explain = new vscode.CodeAction("Explain with OpenCode", vscode.CodeActionKind.QuickFix);
+    explain.diagnostics = [...context.diagnostics];
+    explain.command = {
+      title: explain.title,
+      command: EDITOR_ACTION_COMMANDS.explain,
+      arguments: [document.uri, range, context.diagnostics]
+    };
+
+    return [fix, explain];
+  }
+}
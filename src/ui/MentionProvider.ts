@@ -0,0 +1,224 @@
+import { execFile } from "node:child_process";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import * as vscode from "vscode";
+import type { ContentBlock } from "@agentclientprotocol/sdk";
+
+export type MentionKind = "file" | "folder" | "symbol" | "editor" | "problems" | "diff";
+
+export interface MentionItem {
+  kind: MentionKind;
+  label: string;
+  description?: string;
+  uri?: string;
+  range?: { startLine: number; endLine: number };
+}
+
+const execFileAsync = promisify(execFile);
+
+const MAX_EMBEDDED_BYTES = 256 * 1024;
+const MAX_FILE_RESULTS = 20;
+const MAX_SYMBOL_RESULTS = 10;
+const MAX_RESULTS = 40;
+const FILE_EXCLUDE = "**/{node_modules,.git,dist,out,build}/**";
+const GIT_TIMEOUT_MS = 10_000;
+
+export class MentionProvider {
+  public async search(query: string): Promise<MentionItem[]> {
+    const needle = query.trim().toLowerCase();
+    const matches = (value: string) => !needle || value.toLowerCase().includes(needle);
+
+    const [files, folders, symbols] = await Promise.all([
+      this.findFiles(needle),
+      this.findFolders(needle),
+      this.findSymbols(needle)
+    ]);
+
+    const items: MentionItem[] = [
+      ...this.openEditors().filter((item) => matches(item.label) || matches(item.description ?? "")),
+      ...files,
+      ...folders,
+      ...symbols
+    ];
+
+    const diagnostics = vscode.languages.getDiagnostics().reduce((count, [, entries]) => count + entries.length, 0);
+    if (matches("problems")) {
+      items.push({ kind: "problems", label: "Problems", description: `${diagnostics} in workspace` });
+    }
+    if (matches("git diff") && vscode.workspace.workspaceFolders?.length) {
+      items.push({ kind: "diff", label: "Git diff", description: "Uncommitted changes" });
+    }
+
+    const seen = new Set<string>();
+    return items
+      .filter((item) => {
+        const key = `${item.kind === "editor" ? "file" : item.kind}:${item.uri ?? item.label}:${item.range?.startLine ?? ""}`;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_RESULTS);
+  }
+
+  public async toContentBlock(mention: MentionItem, embeddedContext: boolean): Promise<ContentBlock> {
+    switch (mention.kind) {
+      case "file":
+      case "editor":
+        return this.fileBlock(vscode.Uri.parse(mention.uri ?? ""), mention.label, embeddedContext);
+      case "folder":
+        return { type: "resource_link", uri: mention.uri ?? "", name: mention.label, mimeType: "inode/directory" };
+      case "symbol":
+        return this.symbolBlock(mention, embeddedContext);
+      case "problems":
+        return textResource("opencode-acp:problems", "Problems", this.problemsText(), "text/plain", embeddedContext);
+      case "diff":
+        return textResource("opencode-acp:git-diff", "Git diff", await this.gitDiff(), "text/x-diff", embeddedContext);
+    }
+  }
+
+  public async fileBlock(uri: vscode.Uri, name: string, embeddedContext: boolean): Promise<ContentBlock> {
+    const stat = await vscode.workspace.fs.stat(uri);
+    if (embeddedContext && stat.size <= MAX_EMBEDDED_BYTES) {
+      const open = vscode.workspace.textDocuments.find((document) => document.uri.toString() === uri.toString());
+      if (open) {
+        return { type: "resource", resource: { uri: uri.toString(), text: open.getText() } };
+      }
+      const bytes = Buffer.from(await vscode.workspace.fs.readFile(uri));
+      if (!bytes.includes(0)) {
+        return { type: "resource", resource: { uri: uri.toString(), text: bytes.toString("utf8") } };
+      }
+    }
+
+    return { type: "resource_link", uri: uri.toString(), name, size: stat.size };
+  }
+
+  private async symbolBlock(mention: MentionItem, embeddedContext: boolean): Promise<ContentBlock> {
+    const range = mention.range ?? { startLine: 0, endLine: 0 };
+    const uri = `${mention.uri ?? ""}#L${range.startLine + 1}-L${range.endLine + 1}`;
+    if (!embeddedContext || !mention.uri) {
+      return { type: "resource_link", uri, name: mention.label };
+    }
+
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(mention.uri));
+    const text = document.getText(new vscode.Range(range.startLine, 0, range.endLine + 1, 0));
+    return { type: "resource", resource: { uri, text } };
+  }
+
+  private openEditors(): MentionItem[] {
+    const items: MentionItem[] = [];
+    for (const group of vscode.window.tabGroups.all) {
+      for (const tab of group.tabs) {
+        if (tab.input instanceof vscode.TabInputText && tab.input.uri.scheme === "file") {
+          items.push({
+            kind: "editor",
+            label: tab.label,
+            description: vscode.workspace.asRelativePath(tab.input.uri),
+            uri: tab.input.uri.toString()
+          });
+        }
+      }
+    }
+    return items;
+  }
+
+  private async findFiles(needle: string): Promise<MentionItem[]> {
+    const pattern = needle ? `**/*${caseInsensitiveGlob(needle)}*` : "**/*";
+    const uris = await vscode.workspace.findFiles(pattern, FILE_EXCLUDE, MAX_FILE_RESULTS);
+    return uris.map((uri) => ({
+      kind: "file",
+      label: path.basename(uri.fsPath),
+      description: vscode.workspace.asRelativePath(path.dirname(uri.fsPath)),
+      uri: uri.toString()
+    }));
+  }
+
+  private async findFolders(needle: string): Promise<MentionItem[]> {
+    if (!needle) {
+      return [];
+    }
+
+    const uris = await vscode.workspace.findFiles(`**/*${caseInsensitiveGlob(needle)}*/*`, FILE_EXCLUDE, MAX_FILE_RESULTS * 5);
+    const folders = new Map<string, MentionItem>();
+    for (const uri of uris) {
+      const folder = path.dirname(uri.fsPath);
+      if (!path.basename(folder).toLowerCase().includes(needle) || folders.has(folder)) {
+        continue;
+      }
+      folders.set(folder, {
+        kind: "folder",
+        label: `${path.basename(folder)}/`,
+        description: vscode.workspace.asRelativePath(folder),
+        uri: vscode.Uri.file(folder).toString()
+      });
+    }
+    return [...folders.values()].slice(0, MAX_FILE_RESULTS);
+  }
+
+  private async findSymbols(needle: string): Promise<MentionItem[]> {
+    if (!needle) {
+      return [];
+    }
+
+    try {
+      const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[] | undefined>(
+        "vscode.executeWorkspaceSymbolProvider",
+        needle
+      ) ?? [];
+      return symbols.slice(0, MAX_SYMBOL_RESULTS).map((symbol) => ({
+        kind: "symbol",
+        label: symbol.name,
+        description: `${symbol.containerName ? `${symbol.containerName} · ` : ""}${vscode.workspace.asRelativePath(symbol.location.uri)}:${symbol.location.range.start.line + 1}`,
+        uri: symbol.location.uri.toString(),
+        range: { startLine: symbol.location.range.start.line, endLine: symbol.location.range.end.line }
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  private problemsText(): string {
+    const lines: string[] = [];
+    for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+      for (const diagnostic of diagnostics) {
+        const severity = vscode.DiagnosticSeverity[diagnostic.severity].toLowerCase();
+        const source = diagnostic.source ? ` (${diagnostic.source})` : "";
+        lines.push(
+          `${vscode.workspace.asRelativePath(uri)}:${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1} ${severity}: ${diagnostic.message}${source}`
+        );
+      }
+    }
+    return lines.length ? lines.join("\n") : "No problems reported.";
+  }
+
+  private async gitDiff(): Promise<string> {
+    const diffs: string[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const options = { cwd: folder.uri.fsPath, timeout: GIT_TIMEOUT_MS, maxBuffer: MAX_EMBEDDED_BYTES * 4 };
+      const { stdout } = await execFileAsync("git", ["diff", "HEAD", "--no-color"], options)
+        .catch(() => execFileAsync("git", ["diff", "--no-color"], options))
+        .catch(() => ({ stdout: "" }));
+      if (stdout.trim()) {
+        diffs.push(stdout);
+      }
+    }
+
+    const diff = diffs.join("\n");
+    if (!diff) {
+      return "No uncommitted changes.";
+    }
+    return diff.length > MAX_EMBEDDED_BYTES ? `${diff.slice(0, MAX_EMBEDDED_BYTES)}\n… diff truncated` : diff;
+  }
+}
+
+function textResource(uri: string, name: string, text: string, mimeType: string, embeddedContext: boolean): ContentBlock {
+  if (embeddedContext) {
+    return { type: "resource", resource: { uri, text, mimeType } };
+  }
+  return { type: "text", text: `${name}:\n\`\`\`\n${text}\n\`\`\`` };
+}
+
+function caseInsensitiveGlob(value: string): string {
+  return value.replace(/[\\[\]{}()*?!]/g, "").replace(/[a-z]/g, (char) => `[${char}${char.toUpperCase()}]`);
+}
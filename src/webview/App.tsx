@@ -1,19 +1,48 @@
 import * as React from "react";
-import { ChevronIcon, ItemArrowIcon, ModeIcon, SendIcon, StopIcon, ThoughtChevronIcon } from "./icons";
+import {
+  AttachIcon,
+  ChevronIcon,
+  ForkIcon,
+  ItemArrowIcon,
+  ModeIcon,
+  MoreIcon,
+  PinIcon,
+  PlanStatusIcon,
+  RemoveIcon,
+  SendIcon,
+  StopIcon,
+  ThoughtChevronIcon
+} from "./icons";
 import type {
+  ActivityBlock,
   AppState,
   AssistantMessageItem,
+  AttachmentSummary,
   ChatMetadata,
+  ChatSearchResult,
   CommandOption,
   ConnectionState,
+  HistoryScope,
+  MentionItem,
   ModeOption,
   ModelOption,
   OutgoingMessage,
+  PermissionOptionItem,
+  PermissionRequestItem,
+  PromptAttachment,
+  PromptCapabilities,
+  ReconnectStatus,
   SessionMetadataEnvelope,
   SessionUpdateEnvelope,
+  TerminalSnapshot,
+  ToastItem,
+  TrashEntryItem,
   ThoughtItem,
   TimelineItem,
+  TurnCheckpointItem,
+  TurnUsage,
   ToolCallItem,
+  ToolContentItem,
   VsCodeApi,
   OpenDropdown
 } from "./types";
@@ -24,11 +53,25 @@ import {
   generateId,
   inferModeKind,
   modeLabel,
+  normalizePlanEntries,
+  normalizeToolContent,
   normalizeToolLocations,
-  renderMarkdown,
   showChatTimestamp,
-  splitModelName
+  splitModelName,
+  stripAnsi
 } from "./utils";
+import { computeLineDiff, type LineDiff } from "../shared/diff";
+import { renderMarkdown } from "../shared/markdown";
+import { isEmptyTurn } from "../shared/turns";
+
+const diffCache = new WeakMap<ToolContentItem, LineDiff>();
+
+const STOP_REASON_LABELS: Record<string, string> = {
+  max_tokens: "Stopped: token limit reached",
+  max_turn_requests: "Stopped: turn request limit reached",
+  refusal: "Stopped: the agent refused to continue",
+  cancelled: "Cancelled"
+};
 
 const THOUGHT_TICK_MS = 250;
 const THOUGHT_COLLAPSE_DELAY_MS = 240;
@@ -50,9 +93,90 @@ function createAssistantItem(): AssistantMessageItem {
     planningState: "visible",
     thoughts: [],
     toolRows: [],
+    permissions: [],
+    plan: [],
     activityBlocks: [],
-    lastActivity: "none"
+    lastActivity: "none",
+    interrupted: false,
+    stopReason: null,
+    usage: null,
+    checkpoint: null
+  };
+}
+
+function normalizeUsage(raw: unknown): TurnUsage | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const usage = raw as Partial<TurnUsage>;
+  if (typeof usage.totalTokens !== "number") {
+    return null;
+  }
+  return {
+    inputTokens: typeof usage.inputTokens === "number" ? usage.inputTokens : 0,
+    outputTokens: typeof usage.outputTokens === "number" ? usage.outputTokens : 0,
+    totalTokens: usage.totalTokens,
+    thoughtTokens: typeof usage.thoughtTokens === "number" ? usage.thoughtTokens : null
+  };
+}
+
+function normalizeCheckpoint(raw: unknown): TurnCheckpointItem | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const checkpoint = raw as Partial<TurnCheckpointItem>;
+  if (typeof checkpoint.id !== "string" || !Array.isArray(checkpoint.files)) {
+    return null;
+  }
+  return {
+    id: checkpoint.id,
+    files: checkpoint.files,
+    ...(typeof checkpoint.revertedAt === "number" ? { revertedAt: checkpoint.revertedAt } : {})
+  };
+}
+
+function assistantFromHistory(payload: Record<string, unknown>): AssistantMessageItem {
+  const assistant: AssistantMessageItem = {
+    ...createAssistantItem(),
+    id: generateId("assistant-history"),
+    streaming: false,
+    planningState: "hidden",
+    answerBuffer: String(payload.content ?? ""),
+    interrupted: payload.interrupted === true,
+    plan: normalizePlanEntries(payload.plan),
+    stopReason: typeof payload.stopReason === "string" ? payload.stopReason : null,
+    usage: normalizeUsage(payload.usage),
+    checkpoint: normalizeCheckpoint(payload.checkpoint)
   };
+
+  const activity = Array.isArray(payload.activity) ? payload.activity : [];
+  for (const raw of activity) {
+    if (!raw || typeof raw !== "object") {
+      continue;
+    }
+    const entry = raw as { type?: unknown; [key: string]: unknown };
+    if (entry.type === "thought" && typeof entry.text === "string") {
+      const thought: ThoughtItem = {
+        id: generateId("thought-history"),
+        content: entry.text,
+        startMs: 0,
+        elapsedSeconds: typeof entry.elapsedSeconds === "number" ? entry.elapsedSeconds : 1,
+        expanded: false
+      };
+      assistant.thoughts.push(thought);
+      assistant.activityBlocks.push({ type: "thought", id: thought.id });
+    } else if (entry.type === "tool") {
+      const tool = normalizeTool(entry);
+      if (tool) {
+        assistant.toolRows.push(tool);
+        assistant.activityBlocks.push({ type: "tool", toolCallId: tool.toolCallId });
+      }
+    } else if (entry.type === "notice" && typeof entry.message === "string") {
+      assistant.activityBlocks.push({ type: "notice", id: generateId("notice"), message: entry.message });
+    }
+  }
+
+  return assistant;
 }
 
 function normalizeThought(raw: unknown): ThoughtItem | null {
@@ -89,7 +213,61 @@ function normalizeTool(raw: unknown): ToolCallItem | null {
     title: typeof item.title === "string" ? item.title : "Tool call",
     status: typeof item.status === "string" ? item.status : "pending",
     kind: typeof item.kind === "string" ? item.kind : "other",
-    locations: Array.isArray(item.locations) ? item.locations.filter((location): location is string => typeof location === "string") : []
+    locations: Array.isArray(item.locations) ? item.locations.filter((location): location is string => typeof location === "string") : [],
+    content: normalizeToolContent(item.content, [], new Map())
+  };
+}
+
+function normalizeAttachments(raw: unknown): AttachmentSummary[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .filter((entry): entry is { kind?: unknown; name?: unknown } => Boolean(entry) && typeof entry === "object")
+    .filter((entry) => typeof entry.name === "string")
+    .map((entry) => ({
+      kind: entry.kind === "image" || entry.kind === "mention" ? entry.kind : "file",
+      name: String(entry.name)
+    }));
+}
+
+function readImageAttachment(file: File): Promise<PromptAttachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result ?? "");
+      resolve({
+        kind: "image",
+        name: file.name || "pasted-image",
+        mimeType: file.type,
+        data: dataUrl.slice(dataUrl.indexOf(",") + 1)
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function normalizePermission(raw: unknown): PermissionRequestItem | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const item = raw as Partial<PermissionRequestItem>;
+  if (typeof item.requestId !== "string" || typeof item.toolCallId !== "string") {
+    return null;
+  }
+
+  return {
+    requestId: item.requestId,
+    toolCallId: item.toolCallId,
+    title: typeof item.title === "string" ? item.title : "Permission request",
+    kind: typeof item.kind === "string" ? item.kind : "other",
+    locations: Array.isArray(item.locations) ? item.locations.filter((location): location is string => typeof location === "string") : [],
+    rawInput: typeof item.rawInput === "string" ? item.rawInput : "",
+    options: [],
+    resolution: typeof item.resolution === "string" ? item.resolution : "Expired"
   };
 }
 
@@ -113,7 +291,10 @@ function normalizeTimeline(raw: unknown): TimelineItem[] {
       next.push({
         id: item.id,
         role: "user",
-        content: typeof item.content === "string" ? item.content : ""
+        content: typeof item.content === "string" ? item.content : "",
+        attachments: normalizeAttachments(item.attachments),
+        versionCount: typeof item.versionCount === "number" ? item.versionCount : 1,
+        versionIndex: typeof item.versionIndex === "number" ? item.versionIndex : 0
       });
       continue;
     }
@@ -134,22 +315,30 @@ function normalizeTimeline(raw: unknown): TimelineItem[] {
       const toolRows = Array.isArray(item.toolRows)
         ? item.toolRows.map((tool) => normalizeTool(tool)).filter((tool): tool is ToolCallItem => tool !== null)
         : [];
+      const permissions = Array.isArray(item.permissions)
+        ? item.permissions
+          .map((permission) => normalizePermission(permission))
+          .filter((permission): permission is PermissionRequestItem => permission !== null)
+        : [];
       const activityBlocks = Array.isArray(item.activityBlocks)
         ? item.activityBlocks
           .map((block) => {
             if (!block || typeof block !== "object") {
               return null;
             }
-            const data = block as { type?: unknown; id?: unknown; toolCallId?: unknown };
+            const data = block as { type?: unknown; id?: unknown; toolCallId?: unknown; message?: unknown };
             if (data.type === "thought" && typeof data.id === "string") {
               return { type: "thought", id: data.id } as const;
             }
             if (data.type === "tool" && typeof data.toolCallId === "string") {
               return { type: "tool", toolCallId: data.toolCallId } as const;
             }
+            if (data.type === "notice" && typeof data.id === "string" && typeof data.message === "string") {
+              return { type: "notice", id: data.id, message: data.message } as const;
+            }
             return null;
           })
-          .filter((block): block is { type: "thought"; id: string } | { type: "tool"; toolCallId: string } => block !== null)
+          .filter((block): block is ActivityBlock => block !== null)
         : [];
 
       next.push({
@@ -166,8 +355,14 @@ function normalizeTimeline(raw: unknown): TimelineItem[] {
         planningState: "hidden",
         thoughts,
         toolRows,
+        permissions,
+        plan: normalizePlanEntries(item.plan),
         activityBlocks,
-        lastActivity: "none"
+        lastActivity: "none",
+        interrupted: item.interrupted === true,
+        stopReason: typeof item.stopReason === "string" ? item.stopReason : null,
+        usage: normalizeUsage(item.usage),
+        checkpoint: normalizeCheckpoint(item.checkpoint)
       });
     }
   }
@@ -175,6 +370,36 @@ function normalizeTimeline(raw: unknown): TimelineItem[] {
   return next;
 }
 
+function nestForks(chats: ChatMetadata[]): Array<{ chat: ChatMetadata; depth: number }> {
+  const ids = new Set(chats.map((chat) => chat.id));
+  const children = new Map<string, ChatMetadata[]>();
+  for (const chat of chats) {
+    if (chat.parentChatId && ids.has(chat.parentChatId)) {
+      children.set(chat.parentChatId, [...(children.get(chat.parentChatId) ?? []), chat]);
+    }
+  }
+
+  const nested: Array<{ chat: ChatMetadata; depth: number }> = [];
+  const seen = new Set<string>();
+  const visit = (chat: ChatMetadata, depth: number): void => {
+    if (seen.has(chat.id)) {
+      return;
+    }
+    seen.add(chat.id);
+    nested.push({ chat, depth });
+    for (const child of children.get(chat.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  for (const chat of chats) {
+    if (!chat.parentChatId || !ids.has(chat.parentChatId)) {
+      visit(chat, 0);
+    }
+  }
+  chats.forEach((chat) => visit(chat, 0));
+  return nested;
+}
+
 function groupModels(models: ModelOption[], query: string): Map<string, ModelOption[]> {
   const filtered = models.filter((model) => {
     if (!query) {
@@ -195,19 +420,60 @@ function groupModels(models: ModelOption[], query: string): Map<string, ModelOpt
   return groups;
 }
 
-function assistantHasThought(item: AssistantMessageItem): boolean {
-  return item.thoughts.some((thought) => thought.content.trim().length > 0);
+const ARCHIVED_FILTER = "\u0000archived";
+const MAX_FORK_INDENT = 3;
+const TOAST_DURATION_MS = 8000;
+const MENTION_DEBOUNCE_MS = 120;
+const MENTION_KIND_LABELS: Record<MentionItem["kind"], string> = {
+  file: "File",
+  folder: "Folder",
+  symbol: "Symbol",
+  editor: "Open",
+  problems: "Problems",
+  diff: "Git"
+};
+
+function findMentionTrigger(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  return match ? { start: match.index + match[1].length, query: match[2] } : null;
+}
+
+function renderHighlighted(text: string, highlights: Array<[number, number]>): React.ReactNode[] {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(<mark key={index}>{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return parts;
 }
 
 export function App({ vscode }: AppProps): React.JSX.Element {
   const saved = React.useMemo(() => vscode.getState<AppState>(), [vscode]);
 
   const [connectionState, setConnectionState] = React.useState<ConnectionState>("disconnected");
+  const [reconnectStatus, setReconnectStatus] = React.useState<ReconnectStatus | null>(null);
   const [timeline, setTimeline] = React.useState<TimelineItem[]>(() => normalizeTimeline(saved?.timeline));
   const [processing, setProcessing] = React.useState<boolean>(false);
   const [cancelRequested, setCancelRequested] = React.useState<boolean>(false);
   const [showingChats, setShowingChats] = React.useState<boolean>(false);
   const [chatsList, setChatsList] = React.useState<ChatMetadata[]>([]);
+  const [historyScope, setHistoryScope] = React.useState<HistoryScope>("workspace");
+  const [workspaceName, setWorkspaceName] = React.useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = React.useState<string>("");
+  const [searchResults, setSearchResults] = React.useState<ChatSearchResult[] | null>(null);
+  const [chatMenu, setChatMenu] = React.useState<{ chat: ChatMetadata; x: number; y: number } | null>(null);
+  const [regenerateMenu, setRegenerateMenu] = React.useState<{ x: number; y: number } | null>(null);
+  const [editingMessage, setEditingMessage] = React.useState<{ id: string; text: string } | null>(null);
+  const [showingTrash, setShowingTrash] = React.useState<boolean>(false);
+  const [trashEntries, setTrashEntries] = React.useState<TrashEntryItem[]>([]);
+  const [toast, setToast] = React.useState<ToastItem | null>(null);
+  const [chatFilter, setChatFilter] = React.useState<string | null>(null);
+  const [pendingReveal, setPendingReveal] = React.useState<{ role: string; ordinal: number } | null>(null);
   const [commands, setCommands] = React.useState<CommandOption[]>([]);
   const [availableModes, setAvailableModes] = React.useState<ModeOption[]>([]);
   const [availableModels, setAvailableModels] = React.useState<ModelOption[]>([]);
@@ -216,17 +482,28 @@ export function App({ vscode }: AppProps): React.JSX.Element {
   const [openDropdown, setOpenDropdown] = React.useState<OpenDropdown>(null);
   const [modelSearchQuery, setModelSearchQuery] = React.useState<string>("");
   const [promptText, setPromptText] = React.useState<string>("");
+  const [attachments, setAttachments] = React.useState<PromptAttachment[]>([]);
+  const [revertedDiffs, setRevertedDiffs] = React.useState<Set<string>>(() => new Set());
+  const [mention, setMention] = React.useState<{ start: number; query: string } | null>(null);
+  const [mentionItems, setMentionItems] = React.useState<MentionItem[]>([]);
+  const [mentionIndex, setMentionIndex] = React.useState<number>(0);
+  const [promptCapabilities, setPromptCapabilities] = React.useState<PromptCapabilities>({});
 
   const preferredModeIdRef = React.useRef<string | undefined>(saved?.modeId);
   const preferredModelIdRef = React.useRef<string | undefined>(saved?.modelId);
   const processingRef = React.useRef<boolean>(processing);
   const activeAssistantIdRef = React.useRef<string | null>(null);
+  const currentChatIdRef = React.useRef<string | null>(null);
+  const searchQueryRef = React.useRef<string>("");
+  const mentionRequestRef = React.useRef<number>(0);
+  const terminalSnapshotsRef = React.useRef<Map<string, TerminalSnapshot>>(new Map());
   const thoughtTimerRef = React.useRef<number | null>(null);
   const planningRevealTimerRef = React.useRef<number | null>(null);
   const planningFadeTimerRef = React.useRef<number | null>(null);
   const collapseThoughtTimerRef = React.useRef<number | null>(null);
 
   const messagesRef = React.useRef<HTMLDivElement | null>(null);
+  const chatMenuRef = React.useRef<HTMLDivElement | null>(null);
   const promptInputRef = React.useRef<HTMLTextAreaElement | null>(null);
   const modeDropdownRef = React.useRef<HTMLDivElement | null>(null);
   const modelDropdownRef = React.useRef<HTMLDivElement | null>(null);
@@ -272,12 +549,12 @@ export function App({ vscode }: AppProps): React.JSX.Element {
   }, [stopCollapseThoughtTimer, stopPlanningFadeTimer, stopPlanningRevealTimer, stopThoughtTimer]);
 
   const updateActiveAssistant = React.useCallback((updater: (item: AssistantMessageItem) => AssistantMessageItem): void => {
-    setTimeline((prev) => {
-      const activeId = activeAssistantIdRef.current;
-      if (!activeId) {
-        return prev;
-      }
+    const activeId = activeAssistantIdRef.current;
+    if (!activeId) {
+      return;
+    }
 
+    setTimeline((prev) => {
       const index = prev.findIndex((entry) => entry.id === activeId && entry.role === "assistant");
       if (index < 0) {
         return prev;
@@ -365,23 +642,24 @@ export function App({ vscode }: AppProps): React.JSX.Element {
 
   const finalizeAssistantMessage = React.useCallback((): void => {
     stopAllTimers();
-    setTimeline((prev) => {
-      const activeId = activeAssistantIdRef.current;
-      activeAssistantIdRef.current = null;
-      if (!activeId) {
-        return prev;
-      }
+    const activeId = activeAssistantIdRef.current;
+    activeAssistantIdRef.current = null;
+    if (!activeId) {
+      return;
+    }
 
+    setTimeline((prev) => {
       const index = prev.findIndex((entry) => entry.id === activeId && entry.role === "assistant");
       if (index < 0) {
         return prev;
       }
 
       const assistant = prev[index] as AssistantMessageItem;
-      const hasThought = assistantHasThought(assistant);
-      const hasToolActivity = assistant.toolRows.length > 0;
+      const activity = assistant.activityBlocks.map((block) => block.type === "thought"
+        ? { type: "thought" as const, text: assistant.thoughts.find((thought) => thought.id === block.id)?.content ?? "" }
+        : block);
 
-      if (!assistant.answerBuffer.trim() && !hasThought && !hasToolActivity) {
+      if (isEmptyTurn({ text: assistant.answerBuffer, activity, plan: assistant.plan, interrupted: assistant.interrupted, checkpoint: assistant.checkpoint })) {
         return prev.filter((entry) => entry.id !== assistant.id);
       }
 
@@ -520,13 +798,17 @@ export function App({ vscode }: AppProps): React.JSX.Element {
       const locations = Array.isArray(update.locations)
         ? normalizeToolLocations(update.locations)
         : existing?.locations ?? [];
+      const content = Array.isArray(update.content)
+        ? normalizeToolContent(update.content, existing?.content ?? [], terminalSnapshotsRef.current)
+        : existing?.content ?? [];
 
       const nextTool: ToolCallItem = {
         toolCallId,
         title,
         status,
         kind,
-        locations
+        locations,
+        content
       };
 
       let toolRows = assistant.toolRows;
@@ -551,6 +833,84 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     schedulePlanningStatus();
   }, [fadeOutPlanning, schedulePlanningStatus, stopThoughtTimer, updateActiveAssistant]);
 
+  const addPermissionRequest = React.useCallback((payload: Record<string, unknown>): void => {
+    const requestId = String(payload.requestId ?? "");
+    if (!requestId) {
+      return;
+    }
+
+    if (!activeAssistantIdRef.current) {
+      post({ type: "permissionUnhandled", requestId });
+      return;
+    }
+
+    const permission: PermissionRequestItem = {
+      requestId,
+      toolCallId: String(payload.toolCallId ?? ""),
+      title: String(payload.title ?? "Permission request"),
+      kind: String(payload.kind ?? "other"),
+      locations: Array.isArray(payload.locations) ? payload.locations.map((location) => String(location)) : [],
+      rawInput: String(payload.rawInput ?? ""),
+      options: Array.isArray(payload.options) ? (payload.options as PermissionOptionItem[]) : [],
+      resolution: null
+    };
+    updateActiveAssistant((assistant) => ({ ...assistant, permissions: [...assistant.permissions, permission] }));
+  }, [post, updateActiveAssistant]);
+
+  const updateToolContent = React.useCallback((mapItem: (item: ToolContentItem) => ToolContentItem): void => {
+    setTimeline((prev) => {
+      let changed = false;
+      const next = prev.map((entry) => {
+        if (entry.role !== "assistant") {
+          return entry;
+        }
+
+        let entryChanged = false;
+        const toolRows = entry.toolRows.map((tool) => {
+          let toolChanged = false;
+          const content = tool.content.map((item) => {
+            const mapped = mapItem(item);
+            if (mapped !== item) {
+              toolChanged = true;
+            }
+            return mapped;
+          });
+          if (!toolChanged) {
+            return tool;
+          }
+          entryChanged = true;
+          return { ...tool, content };
+        });
+
+        if (!entryChanged) {
+          return entry;
+        }
+        changed = true;
+        return { ...entry, toolRows };
+      });
+      return changed ? next : prev;
+    });
+  }, []);
+
+  const resolvePermissionCard = React.useCallback((requestId: string, resolution: string): void => {
+    setTimeline((prev) => prev.map((entry) => {
+      if (entry.role !== "assistant" || !entry.permissions.some((permission) => permission.requestId === requestId)) {
+        return entry;
+      }
+      return {
+        ...entry,
+        permissions: entry.permissions.map((permission) => permission.requestId === requestId
+          ? { ...permission, resolution }
+          : permission)
+      };
+    }));
+  }, []);
+
+  const respondToPermission = React.useCallback((requestId: string, option: PermissionOptionItem | null): void => {
+    resolvePermissionCard(requestId, option ? option.name : "Dismissed");
+    post({ type: "permissionResponse", requestId, optionId: option?.optionId ?? null });
+  }, [post, resolvePermissionCard]);
+
   const handleSessionUpdate = React.useCallback((update: SessionUpdateEnvelope): void => {
     switch (update.sessionUpdate) {
       case "agent_message_chunk": {
@@ -572,6 +932,12 @@ export function App({ vscode }: AppProps): React.JSX.Element {
         upsertToolCall(update);
         break;
       }
+      case "plan": {
+        const plan = normalizePlanEntries(update.entries);
+        fadeOutPlanning();
+        updateActiveAssistant((assistant) => ({ ...assistant, plan }));
+        break;
+      }
       case "available_commands_update": {
         setCommands((update.availableCommands as CommandOption[]) ?? []);
         break;
@@ -595,7 +961,13 @@ export function App({ vscode }: AppProps): React.JSX.Element {
       default:
         break;
     }
-  }, [appendMessageChunk, appendThoughtChunk, upsertToolCall]);
+  }, [
+    appendMessageChunk,
+    appendThoughtChunk,
+    fadeOutPlanning,
+    updateActiveAssistant,
+    upsertToolCall
+  ]);
 
   const applyMetadata = React.useCallback((metadata: SessionMetadataEnvelope): void => {
     const modes = metadata.modes?.availableModes ?? [];
@@ -633,6 +1005,7 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     }
 
     setCommands(metadata.commands ?? []);
+    setPromptCapabilities(metadata.promptCapabilities ?? {});
   }, [currentModeId, currentModelId]);
 
   const requestCancel = React.useCallback((): void => {
@@ -650,7 +1023,7 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     }
 
     const text = promptText.trim();
-    if (!text) {
+    if (!text && attachments.length === 0) {
       return;
     }
 
@@ -658,10 +1031,29 @@ export function App({ vscode }: AppProps): React.JSX.Element {
       setShowingChats(false);
     }
 
-    setTimeline((prev) => [...prev, { id: generateId("user"), role: "user", content: text }]);
+    const summaries = attachments.map(({ kind, name }) => ({ kind, name }));
+    setTimeline((prev) => [...prev, { id: generateId("user"), role: "user", content: text, attachments: summaries }]);
     setPromptText("");
-    post({ type: "prompt", text });
-  }, [post, promptText, requestCancel, showingChats]);
+    setAttachments([]);
+    setMention(null);
+    post({ type: "prompt", text, attachments });
+  }, [attachments, post, promptText, requestCancel, showingChats]);
+
+  const onPromptPaste = React.useCallback((event: React.ClipboardEvent<HTMLTextAreaElement>): void => {
+    if (!promptCapabilities.image) {
+      return;
+    }
+
+    const images = Array.from(event.clipboardData.files).filter((file) => file.type.startsWith("image/"));
+    if (images.length === 0) {
+      return;
+    }
+
+    event.preventDefault();
+    void Promise.all(images.map((file) => readImageAttachment(file))).then((pasted) => {
+      setAttachments((prev) => [...prev, ...pasted]);
+    });
+  }, [promptCapabilities.image]);
 
   const switchChat = React.useCallback((chatId: string): void => {
     setShowingChats(false);
@@ -671,6 +1063,16 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     post({ type: "switchChat", chatId });
   }, [post, stopAllTimers]);
 
+  const openSearchResult = React.useCallback((chatId: string, messageIndex?: number): void => {
+    setShowingChats(false);
+    if (chatId !== currentChatIdRef.current) {
+      stopAllTimers();
+      activeAssistantIdRef.current = null;
+      setTimeline([]);
+    }
+    post({ type: "openSearchResult", chatId, messageIndex });
+  }, [post, stopAllTimers]);
+
   React.useEffect(() => {
     processingRef.current = processing;
     if (!processing) {
@@ -696,6 +1098,45 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     element.scrollTop = element.scrollHeight;
   }, [showingChats, timeline]);
 
+  React.useEffect(() => {
+    const element = messagesRef.current;
+    if (!pendingReveal || !element || showingChats) {
+      return;
+    }
+    const target = timeline.filter((entry) => entry.role === pendingReveal.role)[pendingReveal.ordinal];
+    const node = target ? element.querySelector<HTMLElement>(`[data-entry-id="${CSS.escape(target.id)}"]`) : null;
+    setPendingReveal(null);
+    if (!node) {
+      return;
+    }
+    node.scrollIntoView({ block: "center" });
+    node.classList.remove("search-hit");
+    void node.offsetWidth;
+    node.classList.add("search-hit");
+  }, [pendingReveal, showingChats, timeline]);
+
+  React.useEffect(() => {
+    if (!mention) {
+      setMentionItems([]);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      mentionRequestRef.current += 1;
+      post({ type: "searchMentions", requestId: mentionRequestRef.current, query: mention.query });
+    }, MENTION_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [mention, post]);
+
+  React.useEffect(() => {
+    searchQueryRef.current = searchQuery;
+    if (!showingChats || !searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    const timer = window.setTimeout(() => post({ type: "searchChats", query: searchQuery }), 200);
+    return () => window.clearTimeout(timer);
+  }, [historyScope, post, searchQuery, showingChats]);
+
   React.useEffect(() => {
     const element = promptInputRef.current;
     if (!element) {
@@ -712,7 +1153,18 @@ export function App({ vscode }: AppProps): React.JSX.Element {
 
       switch (type) {
         case "connectionState": {
-          setConnectionState(String(payload.state ?? "disconnected") as ConnectionState);
+          const state = String(payload.state ?? "disconnected") as ConnectionState;
+          setConnectionState(state);
+          if (state !== "reconnecting" && state !== "connecting") {
+            setReconnectStatus(null);
+          }
+          break;
+        }
+        case "reconnecting": {
+          setReconnectStatus({
+            attempt: Number(payload.attempt ?? 1),
+            maxAttempts: Number(payload.maxAttempts ?? 1)
+          });
           break;
         }
         case "metadata": {
@@ -727,48 +1179,140 @@ export function App({ vscode }: AppProps): React.JSX.Element {
           startPrompt();
           break;
         }
+        case "turnCheckpoint": {
+          const checkpoint = normalizeCheckpoint(payload.checkpoint);
+          updateActiveAssistant((assistant) => ({ ...assistant, checkpoint }));
+          break;
+        }
+        case "checkpointReverted": {
+          const checkpointId = String(payload.checkpointId ?? "");
+          const revertedAt = typeof payload.revertedAt === "number" ? payload.revertedAt : Date.now();
+          setTimeline((prev) => prev.map((entry) => entry.role === "assistant" && entry.checkpoint?.id === checkpointId
+            ? { ...entry, checkpoint: { ...entry.checkpoint, revertedAt } }
+            : entry));
+          break;
+        }
         case "promptEnd": {
+          const stopReason = typeof payload.stopReason === "string" ? payload.stopReason : null;
+          const usage = normalizeUsage(payload.usage);
+          updateActiveAssistant((assistant) => ({
+            ...assistant,
+            interrupted: assistant.interrupted || stopReason === "interrupted",
+            stopReason,
+            usage
+          }));
           finalizeAssistantMessage();
           setProcessing(false);
           break;
         }
         case "chatReset": {
+          currentChatIdRef.current = null;
           stopAllTimers();
           activeAssistantIdRef.current = null;
           setTimeline([]);
           break;
         }
+        case "permissionRequest": {
+          addPermissionRequest(payload);
+          break;
+        }
+        case "permissionResolved": {
+          resolvePermissionCard(String(payload.requestId ?? ""), String(payload.resolution ?? "Cancelled"));
+          break;
+        }
+        case "diffReverted": {
+          const key = String(payload.key ?? "");
+          setRevertedDiffs((prev) => new Set(prev).add(key));
+          break;
+        }
+        case "terminalOutput": {
+          const snapshot = payload.snapshot as TerminalSnapshot | undefined;
+          if (snapshot && typeof snapshot.terminalId === "string") {
+            terminalSnapshotsRef.current.set(snapshot.terminalId, snapshot);
+            updateToolContent((item) => item.type === "terminal" && item.terminalId === snapshot.terminalId
+              ? { ...item, snapshot }
+              : item);
+          }
+          break;
+        }
+        case "terminalNotice": {
+          const message = String(payload.message ?? "");
+          if (activeAssistantIdRef.current) {
+            updateActiveAssistant((assistant) => ({
+              ...assistant,
+              activityBlocks: [...assistant.activityBlocks, { type: "notice", id: generateId("notice"), message }]
+            }));
+          } else {
+            setTimeline((prev) => [...prev, { id: generateId("error"), role: "error", content: message }]);
+          }
+          break;
+        }
+        case "attachmentsPicked": {
+          const picked = Array.isArray(payload.attachments) ? (payload.attachments as PromptAttachment[]) : [];
+          setAttachments((prev) => [...prev, ...picked]);
+          break;
+        }
+        case "mentionResults": {
+          if (payload.requestId === mentionRequestRef.current) {
+            setMentionItems(Array.isArray(payload.items) ? (payload.items as MentionItem[]) : []);
+            setMentionIndex(0);
+          }
+          break;
+        }
+        case "toast": {
+          setToast({
+            id: Date.now(),
+            message: String(payload.message ?? ""),
+            trashIds: Array.isArray(payload.trashIds) ? (payload.trashIds as string[]) : undefined
+          });
+          break;
+        }
+        case "trashListUpdated": {
+          setTrashEntries(Array.isArray(payload.entries) ? (payload.entries as TrashEntryItem[]) : []);
+          break;
+        }
+        case "chatSearchResults": {
+          if (payload.query === searchQueryRef.current) {
+            setSearchResults(Array.isArray(payload.results) ? (payload.results as ChatSearchResult[]) : []);
+          }
+          break;
+        }
+        case "revealMessage": {
+          setPendingReveal({ role: String(payload.role ?? ""), ordinal: Number(payload.ordinal ?? 0) });
+          break;
+        }
         case "chatListUpdated": {
           setChatsList((payload.chats as ChatMetadata[]) ?? []);
+          setHistoryScope(payload.scope === "all" ? "all" : "workspace");
+          setWorkspaceName(typeof payload.workspaceName === "string" ? payload.workspaceName : null);
           break;
         }
         case "chatLoaded": {
+          currentChatIdRef.current = typeof payload.chatId === "string" ? payload.chatId : null;
           stopAllTimers();
           activeAssistantIdRef.current = null;
           setShowingChats(false);
           break;
         }
         case "chatHistoryMessage": {
-          const role = payload.role === "assistant" ? "assistant" : payload.role === "user" ? "user" : null;
-          if (!role) {
-            break;
-          }
-
           const content = String(payload.content ?? "");
-          if (role === "assistant") {
-            const assistant: AssistantMessageItem = {
-              ...createAssistantItem(),
-              id: generateId("assistant-history"),
-              streaming: false,
-              planningState: "hidden",
-              answerBuffer: content,
-              answerTokens: [],
-              pendingTokenBuffer: "",
-              lastActivity: "none"
-            };
-            setTimeline((prev) => [...prev, assistant]);
-          } else {
-            setTimeline((prev) => [...prev, { id: generateId("user-history"), role: "user", content }]);
+          if (payload.role === "assistant") {
+            setTimeline((prev) => [...prev, assistantFromHistory(payload)]);
+          } else if (payload.role === "user") {
+            const attachmentSummaries = normalizeAttachments(payload.attachments);
+            setTimeline((prev) => [
+              ...prev,
+              {
+                id: generateId("user-history"),
+                role: "user",
+                content,
+                attachments: attachmentSummaries,
+                versionCount: typeof payload.versionCount === "number" ? payload.versionCount : 1,
+                versionIndex: typeof payload.versionIndex === "number" ? payload.versionIndex : 0
+              }
+            ]);
+          } else if (payload.role === "error") {
+            setTimeline((prev) => [...prev, { id: generateId("error-history"), role: "error", content }]);
           }
           break;
         }
@@ -788,11 +1332,15 @@ export function App({ vscode }: AppProps): React.JSX.Element {
       window.removeEventListener("message", onMessage);
     };
   }, [
+    addPermissionRequest,
     applyMetadata,
     finalizeAssistantMessage,
     handleSessionUpdate,
+    resolvePermissionCard,
     startPrompt,
-    stopAllTimers
+    stopAllTimers,
+    updateActiveAssistant,
+    updateToolContent
   ]);
 
   React.useEffect(() => {
@@ -823,6 +1371,39 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     };
   }, [openDropdown]);
 
+  React.useEffect(() => {
+    if (!chatMenu && !regenerateMenu) {
+      return;
+    }
+    const onMouseDown = (event: MouseEvent): void => {
+      if (!chatMenuRef.current?.contains(event.target as Node)) {
+        setChatMenu(null);
+        setRegenerateMenu(null);
+      }
+    };
+    const onEscape = (event: KeyboardEvent): void => {
+      if (event.key === "Escape") {
+        setChatMenu(null);
+        setRegenerateMenu(null);
+      }
+    };
+
+    document.addEventListener("mousedown", onMouseDown);
+    window.addEventListener("keydown", onEscape);
+    return () => {
+      document.removeEventListener("mousedown", onMouseDown);
+      window.removeEventListener("keydown", onEscape);
+    };
+  }, [chatMenu, regenerateMenu]);
+
+  React.useEffect(() => {
+    if (!toast) {
+      return;
+    }
+    const timer = window.setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [toast]);
+
   React.useEffect(() => {
     if (openDropdown === "model") {
       queueMicrotask(() => {
@@ -871,11 +1452,61 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     return groupModels(availableModels, modelSearchQuery.trim().toLowerCase());
   }, [availableModels, modelSearchQuery]);
 
+  const roleOrdinals = React.useMemo(() => {
+    const ordinals = new Map<string, number>();
+    const counts = new Map<string, number>();
+    for (const entry of timeline) {
+      const ordinal = counts.get(entry.role) ?? 0;
+      ordinals.set(entry.id, ordinal);
+      counts.set(entry.role, ordinal + 1);
+    }
+    return ordinals;
+  }, [timeline]);
+
+  const lastAssistantId = React.useMemo(() => {
+    const last = [...timeline].reverse().find((entry) => entry.role !== "error");
+    return last?.role === "assistant" ? last.id : null;
+  }, [timeline]);
+
   const modeKind = inferModeKind(currentMode);
   const modeValue = currentMode ? modeLabel(currentMode, modeKind) : "Build";
   const modelValue = currentModel ? splitModelName(currentModel.name).display : "auto";
 
+  const selectMention = (item: MentionItem): void => {
+    if (!mention) {
+      return;
+    }
+    const end = mention.start + 1 + mention.query.length;
+    setPromptText((prev) => `${prev.slice(0, mention.start)}${prev.slice(end).replace(/^\s*/, "")}`);
+    setAttachments((prev) => [...prev, { kind: "mention", name: `@${item.label}`, mention: item }]);
+    setMention(null);
+    queueMicrotask(() => {
+      const element = promptInputRef.current;
+      element?.focus();
+      element?.setSelectionRange(mention.start, mention.start);
+    });
+  };
+
   const onPromptKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>): void => {
+    if (mention && mentionItems.length) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setMentionIndex((prev) => (prev + step + mentionItems.length) % mentionItems.length);
+        return;
+      }
+      if (event.key === "Enter" || event.key === "Tab") {
+        event.preventDefault();
+        selectMention(mentionItems[Math.min(mentionIndex, mentionItems.length - 1)]);
+        return;
+      }
+    }
+    if (mention && event.key === "Escape") {
+      event.preventDefault();
+      setMention(null);
+      return;
+    }
+
     if (event.key === "Enter" && !event.shiftKey) {
       event.preventDefault();
       sendPrompt();
@@ -892,6 +1523,12 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     }
   };
 
+  const toggleTerminal = (terminalId: string): void => {
+    updateToolContent((item) => item.type === "terminal" && item.terminalId === terminalId
+      ? { ...item, expanded: !item.expanded }
+      : item);
+  };
+
   const toggleThought = (assistantId: string, thoughtId: string): void => {
     setTimeline((prev) => {
       const index = prev.findIndex((entry) => entry.id === assistantId && entry.role === "assistant");
@@ -914,7 +1551,15 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     });
   };
 
-  const renderAssistantBlock = (assistant: AssistantMessageItem, block: { type: "thought"; id: string } | { type: "tool"; toolCallId: string }): React.JSX.Element | null => {
+  const renderAssistantBlock = (assistant: AssistantMessageItem, block: ActivityBlock): React.JSX.Element | null => {
+    if (block.type === "notice") {
+      return (
+        <div key={block.id} className="activity-notice">
+          {block.message}
+        </div>
+      );
+    }
+
     if (block.type === "thought") {
       const thought = assistant.thoughts.find((entry) => entry.id === block.id);
       if (!thought) {
@@ -946,14 +1591,249 @@ export function App({ vscode }: AppProps): React.JSX.Element {
     }
 
     return (
-      <div key={tool.toolCallId} className="tool-row">
-        {formatToolCallLabel(tool)}
+      <React.Fragment key={tool.toolCallId}>
+        <div className="tool-row">
+          {formatToolCallLabel(tool)}
+        </div>
+        {tool.content.map((item, index) => renderToolContent(tool, item, index))}
+        {assistant.permissions
+          .filter((permission) => permission.toolCallId === tool.toolCallId)
+          .map((permission) => renderPermissionCard(permission))}
+      </React.Fragment>
+    );
+  };
+
+  const renderToolContent = (tool: ToolCallItem, item: ToolContentItem, index: number): React.JSX.Element | null => {
+    const key = `${tool.toolCallId}-content-${index}`;
+    if (item.type === "text") {
+      return item.text.trim() ? <div key={key} className="tool-content-text">{item.text}</div> : null;
+    }
+    if (item.type === "diff") {
+      return renderDiff(key, item);
+    }
+
+    const snapshot = item.snapshot;
+    const status = !snapshot || snapshot.running
+      ? "Running…"
+      : snapshot.signal
+        ? `Killed (${snapshot.signal})`
+        : `Exit code ${snapshot.exitCode ?? "unknown"}`;
+    const failed = Boolean(snapshot && !snapshot.running && (snapshot.signal || snapshot.exitCode !== 0));
+
+    return (
+      <div key={key} className="terminal-pane">
+        <button
+          type="button"
+          className="terminal-pane-header"
+          aria-expanded={item.expanded ? "true" : "false"}
+          onClick={() => toggleTerminal(item.terminalId)}
+        >
+          <span className="terminal-pane-label">Output</span>
+          <span className={`terminal-pane-status${failed ? " is-failed" : ""}`}>{status}</span>
+          <span className="thought-chevron-wrap">
+            <ThoughtChevronIcon />
+          </span>
+        </button>
+        {item.expanded ? (
+          <>
+            {snapshot?.truncated ? (
+              <div className="terminal-pane-notice">Output truncated; showing the most recent output</div>
+            ) : null}
+            <pre
+              className="terminal-pane-output"
+              ref={(node) => {
+                if (node) {
+                  node.scrollTop = node.scrollHeight;
+                }
+              }}
+            >
+              {snapshot?.output ? stripAnsi(snapshot.output) : "No output yet"}
+            </pre>
+          </>
+        ) : null}
+      </div>
+    );
+  };
+
+  const renderDiff = (key: string, item: Extract<ToolContentItem, { type: "diff" }>): React.JSX.Element => {
+    let diff = diffCache.get(item);
+    if (!diff) {
+      diff = computeLineDiff(item.oldText, item.newText);
+      diffCache.set(item, diff);
+    }
+    const fileReverted = revertedDiffs.has(key);
+    const fileName = item.path.split(/[\\/]/).pop() ?? item.path;
+
+    return (
+      <div key={key} className="diff-card">
+        <div className="diff-header">
+          <span className="diff-path" title={item.path}>{fileName}</span>
+          <span className="diff-count is-added">+{diff.added}</span>
+          <span className="diff-count is-removed">-{diff.removed}</span>
+          <button
+            type="button"
+            className="diff-action"
+            onClick={() => post({ type: "openDiff", path: item.path, oldText: item.oldText, newText: item.newText })}
+          >
+            Open diff
+          </button>
+          <button
+            type="button"
+            className="diff-action"
+            disabled={fileReverted}
+            onClick={() => post({ type: "revertDiff", key, path: item.path, oldText: item.oldText, newText: item.newText })}
+          >
+            {fileReverted ? "Reverted" : "Revert file"}
+          </button>
+        </div>
+        <div className="diff-body">
+          {diff.hunks.map((hunk, hunkIndex) => {
+            const hunkKey = `${key}-hunk-${hunkIndex}`;
+            const hunkReverted = fileReverted || revertedDiffs.has(hunkKey);
+            return (
+              <div key={hunkKey} className={`diff-hunk${hunkReverted ? " is-reverted" : ""}`}>
+                <div className="diff-hunk-header">
+                  <span>@@ -{hunk.oldStart} +{hunk.newStart} @@</span>
+                  {item.oldText !== null ? (
+                    <button
+                      type="button"
+                      className="diff-action"
+                      disabled={hunkReverted}
+                      onClick={() => post({
+                        type: "revertDiff",
+                        key: hunkKey,
+                        path: item.path,
+                        oldText: item.oldText,
+                        newText: item.newText,
+                        hunk
+                      })}
+                    >
+                      {hunkReverted ? "Reverted" : "Revert hunk"}
+                    </button>
+                  ) : null}
+                </div>
+                <div className="diff-lines">
+                  {hunk.lines.map((line, lineIndex) => (
+                    <div
+                      key={lineIndex}
+                      className={`diff-line${line.type === "+" ? " is-added" : line.type === "-" ? " is-removed" : ""}`}
+                    >
+                      {line.type}{line.text}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderPlan = (assistant: AssistantMessageItem): React.JSX.Element => {
+    const completed = assistant.plan.filter((entry) => entry.status === "completed").length;
+    return (
+      <div className="plan-checklist">
+        <div className="plan-header">
+          <span>Plan</span>
+          <span className="plan-progress">{completed}/{assistant.plan.length}</span>
+        </div>
+        <ul className="plan-entries">
+          {assistant.plan.map((entry, index) => (
+            <li key={`${assistant.id}-plan-${index}`} className={`plan-entry is-${entry.status.replace("_", "-")} is-${entry.priority}`}>
+              <PlanStatusIcon status={entry.status} />
+              <span className="plan-entry-content">{entry.content}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderCheckpoint = (checkpoint: TurnCheckpointItem): React.JSX.Element => {
+    const reverted = typeof checkpoint.revertedAt === "number";
+    const added = checkpoint.files.reduce((total, file) => total + file.added, 0);
+    const removed = checkpoint.files.reduce((total, file) => total + file.removed, 0);
+    return (
+      <div className={`turn-checkpoint${reverted ? " is-reverted" : ""}`}>
+        <details className="turn-checkpoint-files">
+          <summary>
+            {checkpoint.files.length} {checkpoint.files.length === 1 ? "file" : "files"} changed
+            <span className="diff-count is-added">+{added}</span>
+            <span className="diff-count is-removed">-{removed}</span>
+          </summary>
+          <ul>
+            {checkpoint.files.map((file) => (
+              <li key={file.path} title={file.path}>
+                <span className="turn-checkpoint-path">{file.path.split(/[\\/]/).pop()}</span>
+                <span className="turn-checkpoint-change">{file.restorable ? file.change : "not restorable"}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+        <button
+          type="button"
+          className="diff-action turn-revert"
+          disabled={reverted || processing}
+          onClick={() => post({ type: "revertTurn", checkpointId: checkpoint.id })}
+        >
+          {reverted ? "Reverted" : "Revert this turn"}
+        </button>
+      </div>
+    );
+  };
+
+  const renderPermissionCard = (permission: PermissionRequestItem): React.JSX.Element => {
+    return (
+      <div key={permission.requestId} className={`permission-card${permission.resolution ? " is-resolved" : ""}`}>
+        <div className="permission-header">
+          <span className="permission-kind">{permission.kind}</span>
+          <span className="permission-title">{permission.title}</span>
+        </div>
+        {permission.locations.length > 0 ? (
+          <div className="permission-locations">
+            {permission.locations.map((location) => (
+              <div key={location} className="permission-location">{location}</div>
+            ))}
+          </div>
+        ) : null}
+        {permission.rawInput && !permission.resolution ? (
+          <pre className="permission-input">{permission.rawInput}</pre>
+        ) : null}
+        {permission.resolution ? (
+          <div className="permission-resolution">{permission.resolution}</div>
+        ) : (
+          <div className="permission-actions">
+            {permission.options.map((option) => (
+              <button
+                key={option.optionId}
+                type="button"
+                className={`permission-option ${option.kind.startsWith("allow") ? "is-allow" : "is-reject"}`}
+                onClick={() => respondToPermission(permission.requestId, option)}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     );
   };
 
   const isModeDisabled = processing || availableModes.length === 0;
   const isModelDisabled = processing || availableModels.length === 0;
+  const chatTags = [...new Set(chatsList.flatMap((chat) => chat.tags ?? []))].sort((a, b) => a.localeCompare(b));
+  const hasArchivedChats = chatsList.some((chat) => chat.archived);
+  const activeChatFilter = chatFilter === ARCHIVED_FILTER
+    ? (hasArchivedChats ? chatFilter : null)
+    : chatFilter !== null && chatTags.includes(chatFilter) ? chatFilter : null;
+  const chatTitles = new Map(chatsList.map((chat) => [chat.id, chat.customTitle || chat.title]));
+  const visibleChats = nestForks(chatsList.filter((chat) => {
+    if (activeChatFilter === ARCHIVED_FILTER) {
+      return Boolean(chat.archived);
+    }
+    return !chat.archived && (activeChatFilter === null || Boolean(chat.tags?.includes(activeChatFilter)));
+  }));
 
   return (
     <div id="app">
@@ -963,7 +1843,41 @@ export function App({ vscode }: AppProps): React.JSX.Element {
           title={connectionState}
           aria-label={`Connection ${connectionState}`}
         />
+        {reconnectStatus ? (
+          <span className="reconnect-banner">
+            Reconnecting (attempt {reconnectStatus.attempt} of {reconnectStatus.maxAttempts})
+          </span>
+        ) : null}
+        {showingChats && workspaceName ? (
+          <button
+            type="button"
+            className="history-scope-toggle"
+            title={historyScope === "workspace" ? "Show chats from all workspaces" : `Show only chats from ${workspaceName}`}
+            onClick={() => post({ type: "setHistoryScope", scope: historyScope === "workspace" ? "all" : "workspace" })}
+          >
+            {historyScope === "workspace" ? "This workspace" : "All workspaces"}
+          </button>
+        ) : null}
+        {showingChats && !showingTrash ? (
+          <button type="button" className="chats-link" onClick={() => post({ type: "importChat" })}>
+            Import
+          </button>
+        ) : null}
         {showingChats ? (
+          <button
+            type="button"
+            className="chats-link"
+            onClick={() => {
+              if (!showingTrash) {
+                post({ type: "loadTrash" });
+              }
+              setShowingTrash(!showingTrash);
+            }}
+          >
+            {showingTrash ? "History" : "Trash"}
+          </button>
+        ) : null}
+        {showingChats && !showingTrash ? (
           <button
             type="button"
             className="clear-chats-link"
@@ -972,7 +1886,9 @@ export function App({ vscode }: AppProps): React.JSX.Element {
               if (chatsList.length === 0) {
                 return;
               }
-              const confirmed = window.confirm("Clear all chat history? This cannot be undone.");
+              const confirmed = window.confirm(historyScope === "workspace" && workspaceName
+                ? `Move all chats for ${workspaceName} to the trash?`
+                : "Move all chats to the trash?");
               if (!confirmed) {
                 return;
               }
@@ -991,6 +1907,7 @@ export function App({ vscode }: AppProps): React.JSX.Element {
           type="button"
           className="chats-link"
           onClick={() => {
+            setShowingTrash(false);
             if (showingChats) {
               setShowingChats(false);
             } else {
@@ -1003,50 +1920,364 @@ export function App({ vscode }: AppProps): React.JSX.Element {
         </button>
       </div>
 
+      {chatMenu ? (
+        <div
+          ref={chatMenuRef}
+          className="chat-menu"
+          style={{ left: Math.min(chatMenu.x, window.innerWidth - 170), top: Math.min(chatMenu.y, window.innerHeight - 170) }}
+        >
+          {([
+            ["Rename", { type: "renameChat", chatId: chatMenu.chat.id }],
+            [chatMenu.chat.pinned ? "Unpin" : "Pin", { type: "togglePinChat", chatId: chatMenu.chat.id }],
+            ["Edit tags", { type: "editChatTags", chatId: chatMenu.chat.id }],
+            [chatMenu.chat.archived ? "Unarchive" : "Archive", { type: "toggleArchiveChat", chatId: chatMenu.chat.id }],
+            ["Export…", { type: "exportChat", chatId: chatMenu.chat.id }]
+          ] as Array<[string, OutgoingMessage]>).map(([label, message]) => (
+            <button
+              key={label}
+              type="button"
+              className="chat-menu-item"
+              onClick={() => {
+                setChatMenu(null);
+                post(message);
+              }}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            type="button"
+            className="chat-menu-item danger"
+            disabled={processing}
+            onClick={() => {
+              setChatMenu(null);
+              post({ type: "deleteChat", chatId: chatMenu.chat.id });
+            }}
+          >
+            Delete
+          </button>
+        </div>
+      ) : null}
+
+      {regenerateMenu ? (
+        <div
+          ref={chatMenuRef}
+          className="chat-menu"
+          style={{ left: Math.min(regenerateMenu.x, window.innerWidth - 170), top: Math.min(regenerateMenu.y, window.innerHeight - 200) }}
+        >
+          {availableModels.map((model) => (
+            <button
+              key={model.modelId}
+              type="button"
+              className="chat-menu-item"
+              onClick={() => {
+                setRegenerateMenu(null);
+                post({ type: "regenerate", modelId: model.modelId });
+              }}
+            >
+              {splitModelName(model.name).display}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {toast ? (
+        <div key={toast.id} className="toast" role="status">
+          <span className="toast-message">{toast.message}</span>
+          {toast.trashIds?.length ? (
+            <button
+              type="button"
+              className="toast-action"
+              onClick={() => {
+                post({ type: "restoreChats", trashIds: toast.trashIds ?? [] });
+                setToast(null);
+              }}
+            >
+              Undo
+            </button>
+          ) : null}
+          <button type="button" className="toast-close" aria-label="Dismiss" onClick={() => setToast(null)}>
+            <RemoveIcon />
+          </button>
+        </div>
+      ) : null}
+
       <main id="messages" ref={messagesRef} className="messages">
-        {showingChats ? (
-          chatsList.length === 0 ? (
-            <div className="empty-chats"><p>No chats yet. Start a conversation!</p></div>
+        {showingChats && showingTrash ? (
+          trashEntries.length === 0 ? (
+            <div className="empty-chats"><p>Trash is empty.</p></div>
           ) : (
             <div className="chats-list">
-              {chatsList.map((chat) => (
+              <div className="trash-actions">
                 <button
-                  key={chat.id}
                   type="button"
-                  className="chat-item"
-                  onClick={() => switchChat(chat.id)}
+                  className="chat-filter"
+                  onClick={() => post({ type: "restoreChats", trashIds: trashEntries.map((entry) => entry.trashId) })}
                 >
-                  <div className="chat-title">{chat.title}</div>
-                  <div className="chat-meta">{showChatTimestamp(chat.updatedAt)}</div>
+                  Restore all
                 </button>
+                <button
+                  type="button"
+                  className="chat-filter danger"
+                  onClick={() => {
+                    if (window.confirm("Permanently delete every chat in the trash? This cannot be undone.")) {
+                      post({ type: "emptyTrash" });
+                    }
+                  }}
+                >
+                  Empty trash
+                </button>
+              </div>
+              {trashEntries.map((entry) => (
+                <div key={entry.trashId} className="chat-item trash-item">
+                  <div className="trash-item-body">
+                    <div className="chat-title">{entry.chat.customTitle || entry.chat.title}</div>
+                    <div className="chat-meta">
+                      {entry.reason === "cleared" ? "Cleared" : "Deleted"} {showChatTimestamp(entry.trashedAt).toLowerCase()}
+                      {" · "}{entry.messageCount} {entry.messageCount === 1 ? "message" : "messages"}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className="diff-action"
+                    onClick={() => post({ type: "restoreChats", trashIds: [entry.trashId] })}
+                  >
+                    Restore
+                  </button>
+                </div>
+              ))}
+            </div>
+          )
+        ) : null}
+        {showingChats && !showingTrash ? (
+          <input
+            type="search"
+            className="chat-search"
+            placeholder="Search chats"
+            value={searchQuery}
+            onChange={(event) => setSearchQuery(event.target.value)}
+          />
+        ) : null}
+        {showingChats && showingTrash ? null : showingChats && searchResults ? (
+          searchResults.length === 0 ? (
+            <div className="empty-chats"><p>No chats match "{searchQuery.trim()}".</p></div>
+          ) : (
+            <div className="chats-list">
+              {searchResults.map((result) => (
+                <div key={result.chatId} className="chat-item search-result">
+                  <button type="button" className="search-result-title" onClick={() => openSearchResult(result.chatId)}>
+                    <span className="chat-title">{result.title}</span>
+                    <span className="chat-meta">
+                      {showChatTimestamp(result.updatedAt)}
+                      {historyScope === "all" && result.workspaceName ? (
+                        <span className="chat-workspace">{result.workspaceName}</span>
+                      ) : null}
+                    </span>
+                  </button>
+                  {result.matches.filter((match) => match.field !== "title").map((match, index) => (
+                    <button
+                      key={`${result.chatId}-match-${index}`}
+                      type="button"
+                      className="search-snippet"
+                      onClick={() => openSearchResult(result.chatId, match.messageIndex)}
+                    >
+                      <span className="search-snippet-role">{match.field === "location" ? "file" : match.role}</span>
+                      {renderHighlighted(match.snippet, match.highlights)}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )
+        ) : showingChats ? (
+          chatsList.length === 0 ? (
+            <div className="empty-chats"><p>No chats yet. Start a conversation!</p></div>
+          ) : (
+            <div className="chats-list">
+              {chatTags.length || hasArchivedChats ? (
+                <div className="chat-filters">
+                  {[null, ...chatTags, ARCHIVED_FILTER].map((filter) => (
+                    filter === ARCHIVED_FILTER && !hasArchivedChats ? null : (
+                      <button
+                        key={filter ?? "all"}
+                        type="button"
+                        className={`chat-filter${activeChatFilter === filter ? " is-active" : ""}`}
+                        onClick={() => setChatFilter(filter)}
+                      >
+                        {filter === null ? "All" : filter === ARCHIVED_FILTER ? "Archived" : `#${filter}`}
+                      </button>
+                    )
+                  ))}
+                </div>
+              ) : null}
+              {visibleChats.length === 0 ? (
+                <div className="empty-chats"><p>No chats in this view.</p></div>
+              ) : null}
+              {visibleChats.map(({ chat, depth }) => (
+                <div
+                  key={chat.id}
+                  className={`chat-item-wrap${depth ? " is-fork" : ""}`}
+                  style={depth ? { paddingLeft: Math.min(depth, MAX_FORK_INDENT) * 14 } : undefined}
+                  onContextMenu={(event) => {
+                    event.preventDefault();
+                    setChatMenu({ chat, x: event.clientX, y: event.clientY });
+                  }}
+                >
+                  <button
+                    type="button"
+                    className={`chat-item${chat.archived ? " is-archived" : ""}`}
+                    onClick={() => switchChat(chat.id)}
+                  >
+                    <div className="chat-title">
+                      {chat.pinned ? <PinIcon /> : null}
+                      {chat.customTitle || chat.title}
+                    </div>
+                    <div className="chat-meta">
+                      {showChatTimestamp(chat.updatedAt)}
+                      {historyScope === "all" && chat.workspaceName ? (
+                        <span className="chat-workspace">{chat.workspaceName}</span>
+                      ) : null}
+                      {chat.tags?.map((tag) => <span key={tag} className="chat-tag">#{tag}</span>)}
+                      {chat.parentChatId ? (
+                        <span className="chat-fork" title="Forked chat">
+                          <ForkIcon />
+                          {chatTitles.get(chat.parentChatId) ?? "Deleted chat"}
+                        </span>
+                      ) : null}
+                    </div>
+                  </button>
+                  <button
+                    type="button"
+                    className="chat-item-more"
+                    aria-label="Chat actions"
+                    onClick={(event) => {
+                      const rect = event.currentTarget.getBoundingClientRect();
+                      setChatMenu({ chat, x: rect.right, y: rect.bottom });
+                    }}
+                  >
+                    <MoreIcon />
+                  </button>
+                </div>
               ))}
             </div>
           )
         ) : (
           timeline.map((entry) => {
             if (entry.role === "user") {
+              const userIndex = roleOrdinals.get(entry.id) ?? 0;
+              const versionCount = entry.versionCount ?? 1;
+              const versionIndex = entry.versionIndex ?? 0;
+              if (editingMessage?.id === entry.id) {
+                const submitEdit = (): void => {
+                  if (editingMessage.text.trim()) {
+                    setEditingMessage(null);
+                    post({ type: "editMessage", userIndex, text: editingMessage.text });
+                  }
+                };
+                return (
+                  <div key={entry.id} data-entry-id={entry.id} className="message user is-editing">
+                    <textarea
+                      className="message-edit-input"
+                      value={editingMessage.text}
+                      autoFocus
+                      rows={Math.min(10, editingMessage.text.split("\n").length + 1)}
+                      onChange={(event) => setEditingMessage({ id: entry.id, text: event.target.value })}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter" && !event.shiftKey) {
+                          event.preventDefault();
+                          submitEdit();
+                        } else if (event.key === "Escape") {
+                          setEditingMessage(null);
+                        }
+                      }}
+                    />
+                    <div className="message-actions">
+                      <span className="message-edit-hint">Later messages are kept as a version</span>
+                      <button type="button" className="diff-action" onClick={() => setEditingMessage(null)}>Cancel</button>
+                      <button type="button" className="diff-action" disabled={processing || !editingMessage.text.trim()} onClick={submitEdit}>
+                        Send
+                      </button>
+                    </div>
+                  </div>
+                );
+              }
+
               return (
-                <div key={entry.id} className="message user">{entry.content}</div>
+                <div key={entry.id} data-entry-id={entry.id} className="message user">
+                  {entry.content}
+                  {entry.attachments?.length ? (
+                    <div className="attachment-row">
+                      {entry.attachments.map((attachment, index) => (
+                        <span key={`${entry.id}-attachment-${index}`} className="attachment-chip">{attachment.name}</span>
+                      ))}
+                    </div>
+                  ) : null}
+                  <div className="message-actions">
+                    {versionCount > 1 ? (
+                      <span className="version-switcher">
+                        <button
+                          type="button"
+                          title="Previous version"
+                          disabled={processing || versionIndex === 0}
+                          onClick={() => post({ type: "switchVersion", userIndex, version: versionIndex - 1 })}
+                        >
+                          ‹
+                        </button>
+                        <span>{versionIndex + 1}/{versionCount}</span>
+                        <button
+                          type="button"
+                          title="Next version"
+                          disabled={processing || versionIndex >= versionCount - 1}
+                          onClick={() => post({ type: "switchVersion", userIndex, version: versionIndex + 1 })}
+                        >
+                          ›
+                        </button>
+                      </span>
+                    ) : null}
+                    <button
+                      type="button"
+                      className="message-action"
+                      disabled={processing}
+                      onClick={() => setEditingMessage({ id: entry.id, text: entry.content })}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      className="message-action"
+                      disabled={processing}
+                      onClick={() => post({ type: "forkChat", role: "user", ordinal: userIndex })}
+                    >
+                      Fork from here
+                    </button>
+                  </div>
+                </div>
               );
             }
 
             if (entry.role === "error") {
               return (
-                <div key={entry.id} className="message error">{entry.content}</div>
+                <div key={entry.id} data-entry-id={entry.id} className="message error">{entry.content}</div>
               );
             }
 
             const assistant = entry as AssistantMessageItem;
             return (
-              <div key={assistant.id} className="message assistant">
+              <div key={assistant.id} data-entry-id={assistant.id} className="message assistant">
                 <div
                   className={`thinking-shimmer planning-status${assistant.planningState === "visible" ? " is-visible" : ""}${assistant.planningState === "fading" ? " is-fading" : ""}${assistant.planningState === "hidden" ? " is-hidden" : ""}`}
                 >
                   Planning next moves
                 </div>
 
+                {assistant.plan.length ? renderPlan(assistant) : null}
+
                 {assistant.activityBlocks.map((block) => renderAssistantBlock(assistant, block))}
 
+                {assistant.permissions
+                  .filter((permission) => !assistant.toolRows.some((tool) => tool.toolCallId === permission.toolCallId))
+                  .map((permission) => renderPermissionCard(permission))}
+
                 <div className={`assistant-answer${assistant.streaming ? " streaming" : ""}`}>
                   {assistant.streaming ? (
                     <>
@@ -1065,6 +2296,55 @@ export function App({ vscode }: AppProps): React.JSX.Element {
                     <span dangerouslySetInnerHTML={{ __html: renderMarkdown(assistant.answerBuffer) }} />
                   )}
                 </div>
+
+                {assistant.interrupted ? (
+                  <div className="assistant-interrupted">Interrupted: connection to the agent was lost</div>
+                ) : null}
+
+                {!assistant.streaming && (assistant.usage || (assistant.stopReason && STOP_REASON_LABELS[assistant.stopReason])) ? (
+                  <div className="assistant-meta">
+                    {assistant.stopReason && STOP_REASON_LABELS[assistant.stopReason] ? (
+                      <span>{STOP_REASON_LABELS[assistant.stopReason]}</span>
+                    ) : null}
+                    {assistant.usage ? (
+                      <span title={`Input ${assistant.usage.inputTokens.toLocaleString()} · Output ${assistant.usage.outputTokens.toLocaleString()}`}>
+                        {assistant.usage.totalTokens.toLocaleString()} tokens
+                      </span>
+                    ) : null}
+                  </div>
+                ) : null}
+
+                {!assistant.streaming && assistant.checkpoint ? renderCheckpoint(assistant.checkpoint) : null}
+
+                {!assistant.streaming && !processing ? (
+                  <div className="message-actions is-assistant">
+                    <button
+                      type="button"
+                      className="message-action"
+                      onClick={() => post({ type: "forkChat", role: "assistant", ordinal: roleOrdinals.get(assistant.id) ?? 0 })}
+                    >
+                      Fork from here
+                    </button>
+                    {assistant.id === lastAssistantId ? (
+                      <button type="button" className="message-action" onClick={() => post({ type: "regenerate" })}>
+                        Regenerate
+                      </button>
+                    ) : null}
+                    {assistant.id === lastAssistantId && availableModels.length > 1 ? (
+                      <button
+                        type="button"
+                        className="message-action"
+                        title="Regenerate with another model"
+                        onClick={(event) => {
+                          const rect = event.currentTarget.getBoundingClientRect();
+                          setRegenerateMenu({ x: rect.left, y: rect.bottom + 4 });
+                        }}
+                      >
+                        with…
+                      </button>
+                    ) : null}
+                  </div>
+                ) : null}
               </div>
             );
           })
@@ -1081,6 +2361,49 @@ export function App({ vscode }: AppProps): React.JSX.Element {
         }}
       >
         <div className="input-shell">
+          {attachments.length > 0 ? (
+            <div className="attachment-row">
+              {attachments.map((attachment, index) => (
+                <span
+                  key={`${attachment.name}-${index}`}
+                  className={`attachment-chip${attachment.kind === "mention" ? " is-mention" : ""}`}
+                  title={attachment.kind === "mention" ? attachment.mention.description : undefined}
+                >
+                  <span className="attachment-name">{attachment.name}</span>
+                  <button
+                    type="button"
+                    className="attachment-remove"
+                    aria-label={`Remove ${attachment.name}`}
+                    onClick={() => setAttachments((prev) => prev.filter((_, itemIndex) => itemIndex !== index))}
+                  >
+                    <RemoveIcon />
+                  </button>
+                </span>
+              ))}
+            </div>
+          ) : null}
+          {mention && mentionItems.length ? (
+            <div className="mention-menu" role="listbox">
+              {mentionItems.map((item, index) => (
+                <button
+                  key={`${item.kind}-${item.uri ?? item.label}-${index}`}
+                  type="button"
+                  role="option"
+                  aria-selected={index === mentionIndex ? "true" : "false"}
+                  className={`mention-item${index === mentionIndex ? " is-active" : ""}`}
+                  onMouseDown={(event) => {
+                    event.preventDefault();
+                    selectMention(item);
+                  }}
+                  onMouseEnter={() => setMentionIndex(index)}
+                >
+                  <span className="mention-kind">{MENTION_KIND_LABELS[item.kind]}</span>
+                  <span className="mention-label">{item.label}</span>
+                  {item.description ? <span className="mention-description">{item.description}</span> : null}
+                </button>
+              ))}
+            </div>
+          ) : null}
           <textarea
             id="promptInput"
             ref={promptInputRef}
@@ -1088,12 +2411,28 @@ export function App({ vscode }: AppProps): React.JSX.Element {
             value={promptText}
             readOnly={processing}
             placeholder="Ask anything, @ context, / commands"
-            onChange={(event) => setPromptText(event.target.value)}
+            onChange={(event) => {
+              setPromptText(event.target.value);
+              setMention(findMentionTrigger(event.target.value, event.target.selectionStart ?? event.target.value.length));
+            }}
+            onBlur={() => setMention(null)}
             onKeyDown={onPromptKeyDown}
+            onPaste={onPromptPaste}
           />
 
           <div className="input-footer">
             <div className="selector-row">
+              <button
+                type="button"
+                className="attach-btn"
+                aria-label={promptCapabilities.image ? "Attach files or images" : "Attach files"}
+                title={promptCapabilities.image ? "Attach files or images" : "Attach files"}
+                disabled={processing}
+                onClick={() => post({ type: "pickAttachments" })}
+              >
+                <AttachIcon />
+              </button>
+
               <div
                 ref={modeDropdownRef}
                 className={`dropdown mode-dropdown${openDropdown === "mode" ? " open" : ""}`}
@@ -2,12 +2,20 @@ import * as React from "react";
 import {
   ChevronDown,
   ChevronRight,
+  Circle,
+  CircleCheck,
+  CircleDot,
+  Ellipsis,
+  GitFork,
   InfinityIcon,
   LoaderCircle,
   ListTodo,
-  Square
+  Paperclip,
+  Pin,
+  Square,
+  X
 } from "lucide-react";
-import type { ModeKind } from "./types";
+import type { ModeKind, PlanEntryItem } from "./types";
 
 export function SendIcon(): React.JSX.Element {
   return (
@@ -22,6 +30,14 @@ export function StopIcon(): React.JSX.Element {
   return <Square className="send-icon stop-icon" strokeWidth={2.7} />;
 }
 
+export function AttachIcon(): React.JSX.Element {
+  return <Paperclip className="attach-icon" strokeWidth={2.1} />;
+}
+
+export function RemoveIcon(): React.JSX.Element {
+  return <X className="remove-icon" strokeWidth={2.1} />;
+}
+
 export function ChevronIcon(): React.JSX.Element {
   return <ChevronDown className="chevron" strokeWidth={2.1} />;
 }
@@ -30,10 +46,34 @@ export function ItemArrowIcon(): React.JSX.Element {
   return <ChevronRight className="item-arrow" strokeWidth={2.1} />;
 }
 
+export function PinIcon(): React.JSX.Element {
+  return <Pin className="pin-icon" strokeWidth={2.1} />;
+}
+
+export function MoreIcon(): React.JSX.Element {
+  return <Ellipsis className="more-icon" strokeWidth={2.1} />;
+}
+
+export function ForkIcon(): React.JSX.Element {
+  return <GitFork className="fork-icon" strokeWidth={2.1} />;
+}
+
 export function ThoughtChevronIcon(): React.JSX.Element {
   return <ChevronDown className="thought-chevron" strokeWidth={2.1} />;
 }
 
+export function PlanStatusIcon({ status }: { status: PlanEntryItem["status"] }): React.JSX.Element {
+  if (status === "completed") {
+    return <CircleCheck className="plan-status-icon" strokeWidth={2.1} />;
+  }
+
+  if (status === "in_progress") {
+    return <CircleDot className="plan-status-icon" strokeWidth={2.1} />;
+  }
+
+  return <Circle className="plan-status-icon" strokeWidth={2.1} />;
+}
+
 export function ModeIcon({ kind }: { kind: ModeKind }): React.JSX.Element {
   if (kind === "build") {
     return <InfinityIcon className="mode-icon" strokeWidth={2.1} />;
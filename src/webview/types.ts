@@ -1,4 +1,6 @@
-export type ConnectionState = "disconnected" | "connecting" | "connected";
+import type { DiffHunk } from "../shared/diff";
+
+export type ConnectionState = "disconnected" | "connecting" | "connected" | "reconnecting";
 export type ModeKind = "build" | "plan" | "default";
 export type OpenDropdown = "mode" | "model" | null;
 
@@ -29,14 +31,87 @@ export interface ChatMetadata {
   createdAt: number;
   updatedAt: number;
   sessionId?: string;
+  workspaceKey?: string;
+  workspaceName?: string;
+  customTitle?: string;
+  pinned?: boolean;
+  tags?: string[];
+  archived?: boolean;
+  parentChatId?: string;
+  forkedFromMessage?: number;
+}
+
+export type HistoryScope = "workspace" | "all";
+
+export interface TrashEntryItem {
+  trashId: string;
+  batchId: string;
+  trashedAt: number;
+  reason: "deleted" | "cleared";
+  chat: ChatMetadata;
+  messageCount: number;
+}
+
+export interface ToastItem {
+  id: number;
+  message: string;
+  trashIds?: string[];
+}
+
+export interface ChatSearchMatch {
+  field: "title" | "message" | "location";
+  role?: "user" | "assistant" | "error";
+  messageIndex?: number;
+  snippet: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface ChatSearchResult {
+  chatId: string;
+  title: string;
+  updatedAt: number;
+  workspaceName?: string;
+  matches: ChatSearchMatch[];
 }
 
+export interface TerminalSnapshot {
+  terminalId: string;
+  output: string;
+  truncated: boolean;
+  exitCode: number | null;
+  signal: string | null;
+  running: boolean;
+}
+
+export type ToolContentItem =
+  | { type: "text"; text: string }
+  | { type: "terminal"; terminalId: string; snapshot: TerminalSnapshot | null; expanded: boolean }
+  | { type: "diff"; path: string; oldText: string | null; newText: string };
+
 export interface ToolCallItem {
   toolCallId: string;
   title: string;
   status: string;
   kind: string;
   locations: string[];
+  content: ToolContentItem[];
+}
+
+export interface PermissionOptionItem {
+  optionId: string;
+  name: string;
+  kind: string;
+}
+
+export interface PermissionRequestItem {
+  requestId: string;
+  toolCallId: string;
+  title: string;
+  kind: string;
+  locations: string[];
+  rawInput: string;
+  options: PermissionOptionItem[];
+  resolution: string | null;
 }
 
 export interface ThoughtItem {
@@ -47,13 +122,74 @@ export interface ThoughtItem {
   expanded: boolean;
 }
 
+export type ActivityBlock =
+  | { type: "thought"; id: string }
+  | { type: "tool"; toolCallId: string }
+  | { type: "notice"; id: string; message: string };
+
+export interface PlanEntryItem {
+  content: string;
+  priority: "high" | "medium" | "low";
+  status: "pending" | "in_progress" | "completed";
+}
+
+export interface TurnUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  thoughtTokens?: number | null;
+}
+
+export interface CheckpointFileItem {
+  path: string;
+  change: "created" | "modified" | "deleted";
+  added: number;
+  removed: number;
+  restorable: boolean;
+}
+
+export interface TurnCheckpointItem {
+  id: string;
+  files: CheckpointFileItem[];
+  revertedAt?: number;
+}
+
 export type PlanningState = "visible" | "fading" | "hidden";
 export type AssistantActivity = "none" | "thought" | "tool";
 
+export type MentionKind = "file" | "folder" | "symbol" | "editor" | "problems" | "diff";
+
+export interface MentionItem {
+  kind: MentionKind;
+  label: string;
+  description?: string;
+  uri?: string;
+  range?: { startLine: number; endLine: number };
+}
+
+export type PromptAttachment =
+  | { kind: "image"; name: string; mimeType: string; data: string }
+  | { kind: "file"; name: string; uri: string }
+  | { kind: "mention"; name: string; mention: MentionItem };
+
+export interface AttachmentSummary {
+  kind: "image" | "file" | "mention";
+  name: string;
+}
+
+export interface PromptCapabilities {
+  image?: boolean;
+  audio?: boolean;
+  embeddedContext?: boolean;
+}
+
 export interface UserMessageItem {
   id: string;
   role: "user";
   content: string;
+  attachments?: AttachmentSummary[];
+  versionCount?: number;
+  versionIndex?: number;
 }
 
 export interface ErrorMessageItem {
@@ -72,12 +208,23 @@ export interface AssistantMessageItem {
   planningState: PlanningState;
   thoughts: ThoughtItem[];
   toolRows: ToolCallItem[];
-  activityBlocks: Array<{ type: "thought"; id: string } | { type: "tool"; toolCallId: string }>;
+  permissions: PermissionRequestItem[];
+  plan: PlanEntryItem[];
+  activityBlocks: ActivityBlock[];
   lastActivity: AssistantActivity;
+  interrupted: boolean;
+  stopReason: string | null;
+  usage: TurnUsage | null;
+  checkpoint: TurnCheckpointItem | null;
 }
 
 export type TimelineItem = UserMessageItem | ErrorMessageItem | AssistantMessageItem;
 
+export interface ReconnectStatus {
+  attempt: number;
+  maxAttempts: number;
+}
+
 export interface AppState {
   timeline: TimelineItem[];
   modeId?: string;
@@ -91,11 +238,35 @@ export interface SessionUpdateEnvelope {
 
 export type OutgoingMessage =
   | { type: "ready" }
-  | { type: "prompt"; text: string }
+  | { type: "prompt"; text: string; attachments?: PromptAttachment[] }
+  | { type: "pickAttachments" }
+  | { type: "searchMentions"; requestId: number; query: string }
+  | { type: "openDiff"; path: string; oldText: string | null; newText: string }
+  | { type: "revertDiff"; key: string; path: string; oldText: string | null; newText: string; hunk?: DiffHunk }
+  | { type: "permissionResponse"; requestId: string; optionId: string | null }
+  | { type: "permissionUnhandled"; requestId: string }
   | { type: "cancel" }
   | { type: "setMode"; modeId: string }
   | { type: "setModel"; modelId: string }
   | { type: "loadChatHistory" }
+  | { type: "setHistoryScope"; scope: HistoryScope }
+  | { type: "searchChats"; query: string }
+  | { type: "renameChat"; chatId: string }
+  | { type: "togglePinChat"; chatId: string }
+  | { type: "editChatTags"; chatId: string }
+  | { type: "toggleArchiveChat"; chatId: string }
+  | { type: "deleteChat"; chatId: string }
+  | { type: "exportChat"; chatId: string }
+  | { type: "importChat" }
+  | { type: "loadTrash" }
+  | { type: "restoreChats"; trashIds: string[] }
+  | { type: "emptyTrash"; trashIds?: string[] }
+  | { type: "revertTurn"; checkpointId: string }
+  | { type: "editMessage"; userIndex: number; text: string }
+  | { type: "regenerate"; modelId?: string }
+  | { type: "switchVersion"; userIndex: number; version: number }
+  | { type: "forkChat"; role: "user" | "assistant"; ordinal: number }
+  | { type: "openSearchResult"; chatId: string; messageIndex?: number }
   | { type: "clearAllChats" }
   | { type: "switchChat"; chatId: string };
 
@@ -109,4 +280,5 @@ export interface SessionMetadataEnvelope {
     currentModelId?: string;
   };
   commands?: CommandOption[];
+  promptCapabilities?: PromptCapabilities;
 }
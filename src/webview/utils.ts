@@ -1,16 +1,4 @@
-import { marked } from "marked";
-import type { ModeKind, ModeOption, ToolCallItem } from "./types";
-
-export function sanitizeHtml(html: string): string {
-  return html
-    .replace(/<script[\s\S]*?>[\s\S]*?<\/script>/gi, "")
-    .replace(/\son\w+=("[^"]*"|'[^']*')/gi, "")
-    .replace(/javascript:/gi, "");
-}
-
-export function renderMarkdown(text: string): string {
-  return sanitizeHtml(marked.parse(text, { breaks: true, gfm: true }) as string);
-}
+import type { ModeKind, ModeOption, PlanEntryItem, TerminalSnapshot, ToolCallItem, ToolContentItem } from "./types";
 
 export function extractChunkText(update: { content?: unknown; text?: unknown }): string | null {
   if (typeof update.text === "string") {
@@ -70,6 +58,94 @@ export function normalizeToolLocations(raw: unknown): string[] {
   return values;
 }
 
+export function normalizeToolContent(
+  raw: unknown,
+  existing: ToolContentItem[],
+  snapshots: ReadonlyMap<string, TerminalSnapshot>
+): ToolContentItem[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const items: ToolContentItem[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+
+    const data = entry as { type?: unknown; [key: string]: unknown };
+    if (data.type === "terminal" && typeof data.terminalId === "string") {
+      const terminalId = data.terminalId;
+      const previous = existing.find((item) => item.type === "terminal" && item.terminalId === terminalId);
+      const stored = data.snapshot && typeof data.snapshot === "object" ? data.snapshot as TerminalSnapshot : null;
+      items.push({
+        type: "terminal",
+        terminalId,
+        snapshot: snapshots.get(terminalId) ?? (previous?.type === "terminal" ? previous.snapshot : null) ?? stored,
+        expanded: previous?.type === "terminal"
+          ? previous.expanded
+          : typeof data.expanded === "boolean" ? data.expanded : true
+      });
+    } else if (data.type === "diff" && typeof data.path === "string" && typeof data.newText === "string") {
+      items.push({
+        type: "diff",
+        path: data.path,
+        oldText: typeof data.oldText === "string" ? data.oldText : null,
+        newText: data.newText
+      });
+    } else if (data.type === "text" && typeof data.text === "string") {
+      items.push({ type: "text", text: data.text });
+    } else if (data.type === "content") {
+      const text = describeContentBlock(data.content);
+      if (text) {
+        items.push({ type: "text", text });
+      }
+    }
+  }
+
+  return items;
+}
+
+function describeContentBlock(raw: unknown): string | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const block = raw as { type?: unknown; text?: unknown; uri?: unknown; name?: unknown; resource?: { uri?: unknown; text?: unknown } };
+  if (block.type === "text" && typeof block.text === "string") {
+    return block.text;
+  }
+  if (block.type === "resource_link") {
+    return `[${typeof block.name === "string" ? block.name : String(block.uri ?? "resource")}]`;
+  }
+  if (block.type === "resource" && block.resource) {
+    return typeof block.resource.text === "string" ? block.resource.text : `[${String(block.resource.uri ?? "resource")}]`;
+  }
+  if (block.type === "image" || block.type === "audio") {
+    return `[${block.type}]`;
+  }
+  return null;
+}
+
+export function normalizePlanEntries(raw: unknown): PlanEntryItem[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .filter((entry): entry is { content: string; priority?: unknown; status?: unknown } =>
+      Boolean(entry) && typeof entry === "object" && typeof (entry as { content?: unknown }).content === "string")
+    .map((entry) => ({
+      content: entry.content,
+      priority: entry.priority === "high" || entry.priority === "low" ? entry.priority : "medium",
+      status: entry.status === "in_progress" || entry.status === "completed" ? entry.status : "pending"
+    }));
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, "").replace(/\x1b\][^\x07]*\x07/g, "");
+}
+
 export function formatToolCallLabel(call: ToolCallItem): string {
   const firstLocation = call.locations[0] ?? "";
   if (call.title && call.title !== "Tool call") {